@@ -0,0 +1,195 @@
+import { NextResponse } from "next/server";
+import { EXPORTERS } from "@/lib/exporters";
+import { COLOR_SPACES, SCALE_PRESETS } from "@/lib/ramp";
+
+const hexMap = {
+  type: "object",
+  additionalProperties: { type: "string", example: "#1c2e7a" }
+};
+
+const stringMap = {
+  type: "object",
+  additionalProperties: { type: "string", example: "var(--c-deep-blue-500)" }
+};
+
+const errorResponse = {
+  description: "Invalid input; `error` carries the reason",
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } }
+  }
+};
+
+const document = {
+  openapi: "3.1.0",
+  info: {
+    title: "Ramp to CSS",
+    version: "0.1.0",
+    description: "Color ramps and design tokens without the browser UI."
+  },
+  paths: {
+    "/api/ramp": {
+      get: {
+        summary: "Generate one ramp",
+        parameters: [
+          {
+            name: "hex",
+            in: "query",
+            required: true,
+            description: "Base color, #RGB or #RRGGBB; the # may be left out",
+            schema: { type: "string", example: "1c2e7a" }
+          },
+          {
+            name: "stops",
+            in: "query",
+            schema: {
+              type: "string",
+              enum: SCALE_PRESETS.map((s) => s.id),
+              default: "figma"
+            }
+          },
+          {
+            name: "anchor",
+            in: "query",
+            description: '"middle", "auto" or a step of the stop set',
+            schema: { type: "string", default: "middle" }
+          },
+          {
+            name: "space",
+            in: "query",
+            schema: {
+              type: "string",
+              enum: COLOR_SPACES.map((s) => s.id),
+              default: "oklch"
+            }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Hex value per step",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Ramp" } }
+            }
+          },
+          "400": errorResponse
+        }
+      }
+    },
+    "/api/tokens": {
+      post: {
+        summary: "Build tokens for a palette and theme mapping",
+        parameters: [
+          {
+            name: "format",
+            in: "query",
+            description: "Return exporter files instead of the TokenBundle",
+            schema: { type: "string", enum: EXPORTERS.map((e) => e.id) }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": { schema: { $ref: "#/components/schemas/Config" } }
+          }
+        },
+        responses: {
+          "200": {
+            description: "TokenBundle, or `{ files }` when a format is given",
+            content: {
+              "application/json": {
+                schema: {
+                  oneOf: [
+                    { $ref: "#/components/schemas/TokenBundle" },
+                    { $ref: "#/components/schemas/ExportFiles" }
+                  ]
+                }
+              }
+            }
+          },
+          "400": {
+            ...errorResponse,
+            description:
+              "Invalid config, e.g. a bad color or a mapping slot that names a color not in the palette"
+          }
+        }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: { error: { type: "string", example: "Invalid hex color" } }
+      },
+      Ramp: hexMap,
+      PaletteColor: {
+        type: "object",
+        required: ["id", "label", "hex"],
+        properties: {
+          id: { type: "string", example: "deep-blue" },
+          label: { type: "string" },
+          hex: { type: "string" },
+          anchor: { oneOf: [{ type: "string" }, { type: "number" }] }
+        }
+      },
+      Config: {
+        type: "object",
+        description: "Same shape the app saves for each project",
+        required: ["palette", "mapping"],
+        properties: {
+          palette: {
+            type: "array",
+            items: { $ref: "#/components/schemas/PaletteColor" }
+          },
+          mapping: {
+            type: "object",
+            description: "Theme name -> schema slot -> palette color id",
+            additionalProperties: {
+              type: "object",
+              additionalProperties: { type: "string" }
+            }
+          },
+          stopSet: { type: "string", enum: SCALE_PRESETS.map((s) => s.id) },
+          solveContrast: { type: "boolean" },
+          format: { type: "string", enum: EXPORTERS.map((e) => e.id) }
+        }
+      },
+      TokenBundle: {
+        type: "object",
+        properties: {
+          css: { type: "string" },
+          json: {
+            type: "object",
+            properties: {
+              primitives: hexMap,
+              themes: { type: "object", additionalProperties: stringMap },
+              components: { type: "object", additionalProperties: stringMap },
+              audit: { type: "object" }
+            }
+          },
+          unsatisfied: { type: "array", items: { type: "object" } }
+        }
+      },
+      ExportFiles: {
+        type: "object",
+        properties: {
+          files: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                filename: { type: "string" },
+                content: { type: "string" }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+/** GET /api/openapi.json */
+export function GET() {
+  return NextResponse.json(document);
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import {
+  COLOR_SPACES,
+  DEFAULT_RAMP_SETTINGS,
+  generateRamp9,
+  getScale,
+  isValidHex,
+  normalizeHex,
+  type BaseAnchor,
+  type ColorSpace
+} from "@/lib/ramp";
+
+/** GET /api/ramp?hex=1c2e7a&stops=figma&anchor=middle&space=oklch */
+export function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const raw = params.get("hex") ?? "";
+  // "#" has to be escaped in a query string, so accept the bare digits too
+  const hex = raw.startsWith("#") ? raw : `#${raw}`;
+  if (!isValidHex(hex)) return badRequest("Invalid hex color");
+
+  const scale = getScale(params.get("stops") ?? "figma");
+  if (!scale) return badRequest(`Unknown stop set "${params.get("stops")}"`);
+
+  const anchorParam = params.get("anchor") ?? "middle";
+  const anchor: BaseAnchor =
+    anchorParam === "middle" || anchorParam === "auto"
+      ? anchorParam
+      : Number(anchorParam);
+
+  const space = (params.get("space") ?? "oklch") as ColorSpace;
+  if (!COLOR_SPACES.some((s) => s.id === space))
+    return badRequest(`Unknown color space "${space}"`);
+
+  try {
+    return NextResponse.json(
+      generateRamp9(normalizeHex(hex), scale, anchor, {
+        ...DEFAULT_RAMP_SETTINGS,
+        space
+      })
+    );
+  } catch (e: any) {
+    return badRequest(e?.message || "Failed to generate ramp");
+  }
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
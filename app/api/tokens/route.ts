@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { buildFromConfig, type RampcssConfig } from "@/lib/config";
+import { EXPORTERS, getExporter } from "@/lib/exporters";
+
+/**
+POST /api/tokens with a config body (palette, mapping, optional stop set,
+schema, themes, …). Returns the TokenBundle, or with `?format=` (or a
+`format` field) the files of that exporter.
+*/
+export async function POST(request: Request) {
+  let body: RampcssConfig & { format?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest("Body must be JSON");
+  }
+
+  const format = new URL(request.url).searchParams.get("format") ?? body?.format;
+  const exporter = format ? getExporter(format) : undefined;
+  if (format && !exporter) {
+    return badRequest(
+      `Unknown format "${format}"; expected one of ${EXPORTERS.map((e) => e.id).join(", ")}`
+    );
+  }
+
+  try {
+    const bundle = buildFromConfig(body);
+    return NextResponse.json(
+      exporter ? { files: exporter.build(bundle) } : bundle
+    );
+  } catch (e: any) {
+    return badRequest(e?.message || "Failed to build tokens");
+  }
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
@@ -4,7 +4,7 @@ import type { Metadata } from "next";
 export const metadata: Metadata = {
   title: "Ramp to CSS",
   description:
-    "Generate 9-step color ramps (100–900) using a Figma-style gradient stop method, then export CSS tokens.",
+    "Generate color ramps (100–900 or a custom step scale) using a Figma-style gradient stop method, then export CSS tokens.",
   manifest: "/manifest.webmanifest",
   icons: [{ rel: "icon", url: "/icon.svg" }]
 };
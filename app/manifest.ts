@@ -4,7 +4,7 @@ export default function manifest(): MetadataRoute.Manifest {
   return {
     name: "Ramp to CSS",
     short_name: "RampCSS",
-    description: "Generate 9-step color ramps and export CSS variables.",
+    description: "Generate color ramps and export CSS variables.",
     start_url: "/",
     display: "standalone",
     background_color: "#ffffff",
@@ -1,24 +1,118 @@
 "use client";
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState
+} from "react";
 import {
+  DEFAULT_RAMP_SETTINGS,
+  SCALE_PRESETS,
+  anchorStep,
+  applyLocks,
   generateRamp9,
-  isValidHex,
+  getScale,
   normalizeHex,
+  parseColorInput,
+  rampGamut,
+  remapLocks,
+  remapStep,
+  validateScale,
+  type BaseAnchor,
+  type LightnessAlignment,
+  type ParsedColor,
   type Ramp,
-  type RampStep
+  type RampGamut,
+  type RampSettings,
+  type RampStep,
+  type StepScale,
+  type WideGamutFormat
 } from "@/lib/ramp";
+import ComponentEditor from "@/components/ComponentEditor";
+import LightnessChart from "@/components/LightnessChart";
+import ProjectManager from "@/components/ProjectManager";
+import RampControls, { InterpolationFields } from "@/components/RampControls";
+import SchemaEditor from "@/components/SchemaEditor";
+import StepEditor from "@/components/StepEditor";
+import TokenPreview from "@/components/TokenPreview";
+import type { RampcssConfig } from "@/lib/config";
+import type { ContrastResult } from "@/lib/contrast";
+import { EXPORTERS, getExporter } from "@/lib/exporters";
+import { importTokens } from "@/lib/importer";
+import { rampMetrics, type RampMetrics } from "@/lib/metrics";
+import {
+  createProject,
+  createSnapshot,
+  deleteProject,
+  deleteSnapshot,
+  diffConfigs,
+  duplicateProject,
+  getProject,
+  listProjects,
+  listSnapshots,
+  renameProject,
+  saveProjectConfig,
+  startProjects,
+  type Project,
+  type ProjectSnapshot
+} from "@/lib/projects";
+import {
+  BUILTIN_COMPONENTS,
+  renameRegistryToken,
+  validateRegistry,
+  type ComponentDefinition
+} from "@/lib/registry";
+import {
+  DEFAULT_SCHEMA,
+  remapSchemaSteps,
+  validateSchema,
+  type SemanticSchema
+} from "@/lib/schema";
+import { decodeShareFragment, encodeShareFragment } from "@/lib/share";
+import {
+  encodeAse,
+  encodeGpl,
+  encodeProcreate,
+  rampSwatchGroups,
+  readSwatchFile,
+  swatchSheetSvg,
+  swatchesToPalette
+} from "@/lib/swatches";
+import {
+  DEFAULT_THEMES,
+  resolveMapping,
+  resolveStep,
+  validateThemes,
+  type ThemeDefinition
+} from "@/lib/themes";
 import {
   buildTokens,
   slugifyId,
+  uniqueId,
   type PaletteColor,
   type ThemeMapping,
   type ThemeName
 } from "@/lib/tokens";
+import {
+  DEFAULT_DISTINCT_DELTA_E,
+  VISION_MODES,
+  findVisionConflicts,
+  simulateColor,
+  simulateCss,
+  type VisionMode
+} from "@/lib/vision";
+import { zipFiles } from "@/lib/zip";
 
-type Row = PaletteColor & { ramp?: Ramp; error?: string };
-
-const STEPS: RampStep[] = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+type Row = PaletteColor & {
+  parsed?: ParsedColor;
+  ramp?: Ramp;
+  gamut?: RampGamut;
+  metrics?: RampMetrics;
+  baseStep?: RampStep | null;
+  error?: string;
+};
 
 const DEFAULT_PALETTE: PaletteColor[] = [
   { id: "deep-blue", label: "Deep Blue", hex: "#1c2e7a" },
@@ -46,51 +140,247 @@ const DEFAULT_MAPPING: Record<ThemeName, ThemeMapping> = {
   }
 };
 
-const STORAGE_KEY = "rampcss.palette.v1";
+/** Remembers which project to open next time. */
+const CURRENT_PROJECT_KEY = "rampcss.project";
+
+const DEFAULT_CONFIG: RampcssConfig = {
+  palette: DEFAULT_PALETTE.map((r) => ({ ...r, hex: normalizeHex(r.hex) })),
+  mapping: DEFAULT_MAPPING
+};
 
 export default function Page() {
-  const [stopSet, setStopSet] = useState<"figma" | "even">("figma");
+  const [scale, setScale] = useState<StepScale>(SCALE_PRESETS[0]);
+  const [rampSettings, setRampSettings] = useState<RampSettings>(
+    DEFAULT_RAMP_SETTINGS
+  );
+  const [alignment, setAlignment] = useState<LightnessAlignment | null>(null);
+  const [wideGamut, setWideGamut] = useState<WideGamutFormat | null>(null);
   const [rows, setRows] = useState<Row[]>(() =>
     DEFAULT_PALETTE.map((r) => ({ ...r, hex: normalizeHex(r.hex) }))
   );
   const [mapping, setMapping] =
     useState<Record<ThemeName, ThemeMapping>>(DEFAULT_MAPPING);
   const [activeTheme, setActiveTheme] = useState<ThemeName>("light");
-  const [exportTab, setExportTab] = useState<"css" | "json">("css");
+  const [exportTab, setExportTab] = useState("css");
+  const [solveContrast, setSolveContrast] = useState(false);
+  const [schema, setSchema] = useState<SemanticSchema>(DEFAULT_SCHEMA);
+  const [themes, setThemes] = useState<ThemeDefinition[]>(DEFAULT_THEMES);
+  const [registry, setRegistry] =
+    useState<ComponentDefinition[]>(BUILTIN_COMPONENTS);
+  const [importNotes, setImportNotes] = useState<string[] | null>(null);
+  const [swatchNote, setSwatchNote] = useState<string | null>(null);
+  const [vision, setVision] = useState<VisionMode>("normal");
+  const [distinctDeltaE, setDistinctDeltaE] = useState(DEFAULT_DISTINCT_DELTA_E);
+  const [editing, setEditing] = useState<{ id: string; step: RampStep } | null>(
+    null
+  );
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [comparingId, setComparingId] = useState<string | null>(null);
 
-  useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return;
-      const parsed = JSON.parse(raw);
-      if (Array.isArray(parsed?.palette)) setRows(parsed.palette);
-      if (parsed?.mapping) setMapping(parsed.mapping);
-      if (parsed?.stopSet) setStopSet(parsed.stopSet);
-    } catch {}
+  const currentConfig = useMemo<RampcssConfig>(
+    () => ({
+      palette: rows,
+      mapping,
+      stopSet: scale.id,
+      scale,
+      rampSettings,
+      alignment,
+      wideGamut,
+      solveContrast,
+      schema,
+      themes,
+      registry
+    }),
+    [
+      rows,
+      mapping,
+      scale,
+      rampSettings,
+      alignment,
+      wideGamut,
+      solveContrast,
+      schema,
+      themes,
+      registry
+    ]
+  );
+  const configRef = useRef(currentConfig);
+  configRef.current = currentConfig;
+
+  /** Replaces the whole page state; fields the config lacks get defaults. */
+  const applyConfig = useCallback((config: RampcssConfig) => {
+    const nextThemes = config.themes ?? DEFAULT_THEMES;
+    setRows(config.palette);
+    setMapping(config.mapping);
+    setScale(
+      config.scale ?? getScale(config.stopSet ?? "figma") ?? SCALE_PRESETS[0]
+    );
+    setRampSettings(config.rampSettings ?? DEFAULT_RAMP_SETTINGS);
+    setAlignment(config.alignment ?? null);
+    setWideGamut(config.wideGamut ?? null);
+    setSolveContrast(config.solveContrast ?? false);
+    setSchema(config.schema ?? DEFAULT_SCHEMA);
+    setThemes(nextThemes);
+    setRegistry(config.registry ?? BUILTIN_COMPONENTS);
+    setActiveTheme((t) =>
+      nextThemes.some((x) => x.name === t) ? t : nextThemes[0].name
+    );
+    setEditing(null);
   }, []);
 
+  const openProject = useCallback(
+    async (id: string) => {
+      const project = await getProject(id);
+      if (!project) return;
+      applyConfig(project.config);
+      setProjectId(id);
+      setComparingId(null);
+      setSnapshots(await listSnapshots(id));
+      localStorage.setItem(CURRENT_PROJECT_KEY, id);
+    },
+    [applyConfig]
+  );
+
   useEffect(() => {
-    try {
-      localStorage.setItem(
-        STORAGE_KEY,
-        JSON.stringify({ palette: rows, mapping, stopSet })
-      );
-    } catch {}
-  }, [rows, mapping, stopSet]);
+    // Share links open on load and when pasted into an open tab
+    async function openShareLink() {
+      let shared;
+      try {
+        shared = await decodeShareFragment(location.hash);
+      } catch (e: any) {
+        setImportNotes([`Share link: ${e?.message}`]);
+      }
+      if (shared === null) return;
+      history.replaceState(null, "", location.pathname + location.search);
+      if (
+        !shared ||
+        !confirm(
+          "Open the shared palette as a new project? Your current project is kept as it is."
+        )
+      )
+        return;
+
+      const scale =
+        typeof shared.stopSet === "string"
+          ? getScale(shared.stopSet)!
+          : shared.stopSet;
+      const current = configRef.current;
+      const config: RampcssConfig = {
+        ...current,
+        palette: shared.palette,
+        mapping: shared.mapping,
+        stopSet: scale.id,
+        scale,
+        rampSettings: shared.rampSettings ?? current.rampSettings,
+        alignment:
+          shared.alignment === undefined ? current.alignment : shared.alignment,
+        schema: shared.schema ?? current.schema,
+        themes: shared.themes ?? current.themes
+      };
+      try {
+        const project = await createProject("Shared palette", config);
+        setProjects(await listProjects());
+        await openProject(project.id);
+      } catch {
+        applyConfig(config);
+      }
+      const themeNames = (config.themes ?? DEFAULT_THEMES).map((t) => t.name);
+      if (themeNames.includes(shared.theme) && shared.mapping[shared.theme])
+        setActiveTheme(shared.theme);
+      setImportNotes(["Opened a shared palette"]);
+    }
+
+    // Effects can run twice in development; only the live one continues
+    let active = true;
+    async function init() {
+      try {
+        const list = await startProjects(configRef.current);
+        if (!active) return;
+        setProjects(list);
+        const remembered = localStorage.getItem(CURRENT_PROJECT_KEY);
+        const open = list.find((p) => p.id === remembered) ?? list[0];
+        await openProject(open.id);
+      } catch {
+        // Without IndexedDB (some private windows) the page works unsaved
+      }
+      if (active) await openShareLink();
+    }
+
+    init();
+    window.addEventListener("hashchange", openShareLink);
+    return () => {
+      active = false;
+      window.removeEventListener("hashchange", openShareLink);
+    };
+  }, [applyConfig, openProject]);
+
+  // Every change is saved to the open project
+  useEffect(() => {
+    if (!projectId) return;
+    saveProjectConfig(projectId, currentConfig).catch(() => {});
+  }, [projectId, currentConfig]);
 
   const colorIds = useMemo(() => rows.map((r) => r.id), [rows]);
+  const schemaErrors = useMemo(
+    () => [
+      ...validateThemes(themes),
+      ...validateSchema(schema, themes, scale.steps)
+    ],
+    [schema, themes, scale]
+  );
+  const scaleErrors = useMemo(() => validateScale(scale), [scale]);
+  // Steps stay in the last valid scale while a custom one is being edited
+  const validScaleRef = useRef(scale);
+  useEffect(() => {
+    if (!scaleErrors.length) validScaleRef.current = scale;
+  }, [scale, scaleErrors]);
+  const registryErrors = useMemo(() => validateRegistry(registry), [registry]);
 
   const computed = useMemo(() => {
     return rows.map((r) => {
-      if (!isValidHex(r.hex)) return { ...r, error: "Invalid hex" };
+      // The typed value stays in the palette; ramps use the parsed color
+      const parsed = parseColorInput(r.hex);
+      if (!parsed) return { ...r, error: "Not a CSS color" };
       try {
-        const ramp = generateRamp9(normalizeHex(r.hex), stopSet);
-        return { ...r, hex: normalizeHex(r.hex), ramp, error: undefined };
+        const hex = r.hex.trim();
+        const generated = generateRamp9(
+          hex,
+          scale,
+          r.anchor,
+          r.interpolation ?? rampSettings,
+          alignment ?? undefined
+        );
+        const baseStep = anchorStep(hex, scale, r.anchor);
+        const ramp = applyLocks(generated, r.locks, r.reflow, baseStep);
+        const wide = rampGamut(
+          hex,
+          scale,
+          r.anchor,
+          r.interpolation ?? rampSettings,
+          alignment ?? undefined,
+          wideGamut ?? "p3"
+        );
+        // Hand-set and reflowed steps are plain sRGB
+        const gamut = Object.fromEntries(
+          Object.entries(wide).filter(([s]) => ramp[+s] === generated[+s])
+        );
+        const metrics = rampMetrics(ramp, gamut);
+        return {
+          ...r,
+          parsed,
+          ramp,
+          gamut,
+          metrics,
+          baseStep,
+          error: undefined
+        };
       } catch (e: any) {
         return { ...r, error: e?.message || "Failed to generate ramp" };
       }
     });
-  }, [rows, stopSet]);
+  }, [rows, scale, rampSettings, alignment, wideGamut]);
 
   const rampsById = useMemo(() => {
     const map: Record<string, Ramp> = {};
@@ -100,24 +390,147 @@ export default function Page() {
 
   const tokenBundle = useMemo(() => {
     const ok = computed.every((r) => r.ramp && !r.error);
-    if (!ok) return null;
+    if (!ok || schemaErrors.length || registryErrors.length) return null;
 
-    for (const theme of ["light", "dark"] as ThemeName[]) {
-      const m = mapping[theme];
+    for (const { name } of themes) {
+      const m = resolveMapping(themes, mapping, name);
       const ids = new Set(colorIds);
-      if (!Object.values(m).every((v) => ids.has(v))) return null;
+      if (!schema.slots.every((s) => ids.has(m[s.key]))) return null;
     }
 
     try {
       return buildTokens(
-        computed.map(({ id, label, hex }) => ({ id, label, hex })),
+        computed.map(({ id, label, hex, locks }) => ({ id, label, hex, locks })),
         rampsById,
-        mapping
+        mapping,
+        {
+          solveContrast,
+          schema,
+          themes,
+          registry,
+          wideGamut: wideGamut
+            ? {
+                format: wideGamut,
+                ramps: Object.fromEntries(
+                  computed.map((r) => [r.id, r.gamut ?? {}])
+                )
+              }
+            : undefined
+        }
       );
     } catch {
       return null;
     }
-  }, [computed, rampsById, mapping, colorIds]);
+  }, [
+    computed,
+    rampsById,
+    mapping,
+    colorIds,
+    solveContrast,
+    schema,
+    schemaErrors,
+    themes,
+    registry,
+    registryErrors,
+    wideGamut
+  ]);
+
+  const visionConflicts = useMemo(() => {
+    if (!tokenBundle) return [];
+    return findVisionConflicts(
+      tokenBundle.json.themes,
+      rampsById,
+      schema,
+      distinctDeltaE
+    );
+  }, [tokenBundle, rampsById, schema, distinctDeltaE]);
+
+  const swatchRamps = useMemo(
+    () =>
+      computed.flatMap((r) =>
+        r.ramp ? [{ id: r.id, label: r.label, ramp: r.ramp }] : []
+      ),
+    [computed]
+  );
+
+  const exporter = getExporter(exportTab) ?? EXPORTERS[0];
+
+  const exportFiles = useMemo(() => {
+    if (!tokenBundle) return null;
+    return exporter.build(tokenBundle);
+  }, [tokenBundle, exporter]);
+
+  const comparing = useMemo(() => {
+    const snapshot = snapshots.find((s) => s.id === comparingId);
+    if (!snapshot) return null;
+    return { snapshot, changes: diffConfigs(snapshot.config, currentConfig) };
+  }, [snapshots, comparingId, currentConfig]);
+
+  async function newProject() {
+    const project = await createProject(
+      `Project ${projects.length + 1}`,
+      DEFAULT_CONFIG
+    );
+    setProjects(await listProjects());
+    await openProject(project.id);
+  }
+
+  async function renameCurrentProject(name: string) {
+    if (!projectId) return;
+    await renameProject(projectId, name);
+    setProjects(await listProjects());
+  }
+
+  async function duplicateCurrentProject() {
+    if (!projectId) return;
+    // Save first so the copy has the latest edits
+    await saveProjectConfig(projectId, currentConfig);
+    const project = await duplicateProject(projectId);
+    setProjects(await listProjects());
+    await openProject(project.id);
+  }
+
+  async function deleteCurrentProject() {
+    const project = projects.find((p) => p.id === projectId);
+    if (
+      !project ||
+      !confirm(`Delete "${project.name}" and all of its snapshots?`)
+    )
+      return;
+    await deleteProject(project.id);
+    let list = await listProjects();
+    if (!list.length) list = [await createProject("My palette", DEFAULT_CONFIG)];
+    setProjects(list);
+    await openProject(list[0].id);
+  }
+
+  async function saveSnapshot(name: string) {
+    if (!projectId) return;
+    await createSnapshot(
+      projectId,
+      name || new Date().toLocaleString(),
+      currentConfig
+    );
+    setSnapshots(await listSnapshots(projectId));
+  }
+
+  function restoreSnapshot(snapshot: ProjectSnapshot) {
+    if (
+      !confirm(
+        `Restore "${snapshot.name}"? Unsaved work is replaced; save a snapshot first to keep it.`
+      )
+    )
+      return;
+    applyConfig(snapshot.config);
+    setComparingId(null);
+  }
+
+  async function removeSnapshot(snapshot: ProjectSnapshot) {
+    if (!projectId || !confirm(`Delete snapshot "${snapshot.name}"?`)) return;
+    await deleteSnapshot(snapshot.id);
+    if (comparingId === snapshot.id) setComparingId(null);
+    setSnapshots(await listSnapshots(projectId));
+  }
 
   function addColor() {
     setRows((prev) => {
@@ -134,15 +547,245 @@ export default function Page() {
     setRows((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
   }
 
-  function updateMapping(
-    theme: ThemeName,
-    key: keyof ThemeMapping,
-    value: string
-  ) {
-    setMapping((prev) => ({
+  function lockStep(id: string, step: RampStep, hex: string) {
+    setRows((prev) =>
+      prev.map((r) =>
+        r.id === id ? { ...r, locks: { ...r.locks, [step]: hex } } : r
+      )
+    );
+  }
+
+  function unlockStep(id: string, step?: RampStep) {
+    setRows((prev) =>
+      prev.map((r) => {
+        if (r.id !== id) return r;
+        if (step === undefined) return { ...r, locks: undefined };
+        const locks = { ...r.locks };
+        delete locks[step];
+        return { ...r, locks: Object.keys(locks).length ? locks : undefined };
+      })
+    );
+  }
+
+  function updateSchema(next: SemanticSchema) {
+    setSchema(next);
+    // New slots start out pointing at the first color in every root theme
+    setMapping((prev) => {
+      const out = { ...prev };
+      for (const { name: theme } of themes.filter((t) => !t.extends)) {
+        const m = { ...prev[theme] };
+        for (const s of next.slots) if (!m[s.key]) m[s.key] = colorIds[0] ?? "";
+        out[theme] = m;
+      }
+      return out;
+    });
+  }
+
+  function changeScale(next: StepScale) {
+    // Semantic steps follow the scale by relative position
+    const from = validScaleRef.current;
+    if (validateScale(next).length === 0) {
+      validScaleRef.current = next;
+      setSchema((prev) => remapSchemaSteps(prev, from, next));
+      setRows((prev) =>
+        prev.map((r) => ({
+          ...r,
+          anchor:
+            typeof r.anchor === "number"
+              ? remapStep(r.anchor, from, next)
+              : r.anchor,
+          locks: r.locks ? remapLocks(r.locks, from, next) : undefined
+        }))
+      );
+    }
+    setScale(next);
+  }
+
+  function updateMapping(theme: ThemeName, key: string, value: string) {
+    setMapping((prev) => {
+      const m = { ...prev[theme] };
+      // An empty value on an extending theme means "inherit"
+      if (value) m[key] = value;
+      else delete m[key];
+      return { ...prev, [theme]: m };
+    });
+  }
+
+  function addTheme() {
+    const name = uniqueId("theme", new Set(themes.map((t) => t.name)));
+    setThemes((prev) => [...prev, { name, extends: activeTheme }]);
+    setMapping((prev) => ({ ...prev, [name]: {} }));
+  }
+
+  function renameTheme(from: ThemeName, to: ThemeName) {
+    if (!to || to === from || themes.some((t) => t.name === to)) return false;
+    setThemes((prev) =>
+      prev.map((t) => ({
+        ...t,
+        name: t.name === from ? to : t.name,
+        extends: t.extends === from ? to : t.extends
+      }))
+    );
+    setMapping((prev) => renameKey(prev, from, to));
+    setSchema((prev) => ({
       ...prev,
-      [theme]: { ...prev[theme], [key]: value }
+      roles: prev.roles.map((r) =>
+        r.step ? { ...r, step: renameKey(r.step, from, to) } : r
+      )
     }));
+    if (activeTheme === from) setActiveTheme(to);
+    return true;
+  }
+
+  function setThemeParent(name: ThemeName, parent: ThemeName | undefined) {
+    // Detaching copies the inherited values so the theme keeps its output
+    if (!parent) {
+      setMapping((prev) => ({
+        ...prev,
+        [name]: resolveMapping(themes, prev, name)
+      }));
+      setSchema((prev) => ({
+        ...prev,
+        roles: prev.roles.map((r) => {
+          const step = resolveStep(themes, r, name);
+          return r.step && step ? { ...r, step: { ...r.step, [name]: step } } : r;
+        })
+      }));
+    }
+    setThemes((prev) =>
+      prev.map((t) => (t.name === name ? { ...t, extends: parent } : t))
+    );
+  }
+
+  function removeTheme(name: ThemeName) {
+    if (themes.length <= 1) return;
+    const removed = themes.find((t) => t.name === name);
+    // Children take over the removed theme's own values and parent
+    setMapping((prev) => {
+      const out = { ...prev };
+      for (const t of themes.filter((t) => t.extends === name)) {
+        out[t.name] = { ...prev[name], ...prev[t.name] };
+      }
+      delete out[name];
+      return out;
+    });
+    setSchema((prev) => ({
+      ...prev,
+      roles: prev.roles.map((r) => {
+        if (!r.step) return r;
+        const step = { ...r.step };
+        for (const t of themes.filter((t) => t.extends === name)) {
+          if (step[t.name] === undefined && step[name] !== undefined)
+            step[t.name] = step[name];
+        }
+        delete step[name];
+        return { ...r, step };
+      })
+    }));
+    setThemes((prev) =>
+      prev
+        .filter((t) => t.name !== name)
+        .map((t) =>
+          t.extends === name ? { ...t, extends: removed?.extends } : t
+        )
+    );
+    if (activeTheme === name)
+      setActiveTheme(themes.find((t) => t.name !== name)!.name);
+  }
+
+  async function importFile(file: File) {
+    let result;
+    try {
+      result = importTokens(await file.text(), schema, themes);
+    } catch (e: any) {
+      setImportNotes([`${file.name}: ${e?.message || "Could not be read"}`]);
+      return;
+    }
+
+    // Steps follow the scale; themes new to the schema take the file's steps
+    const next =
+      validateScale(scale).length === 0
+        ? remapSchemaSteps(schema, scale, result.scale)
+        : schema;
+    setSchema({
+      ...next,
+      roles: next.roles.map((r) => {
+        if (!r.step) return r;
+        const step = { ...r.step };
+        for (const t of result.themes) {
+          const found = result.roleSteps[r.token]?.[t.name];
+          if (resolveStep(result.themes, r, t.name) === undefined && found)
+            step[t.name] = found;
+        }
+        return { ...r, step };
+      })
+    });
+    setScale(result.scale);
+    setRows(result.palette);
+    setMapping(result.mapping);
+    setThemes(result.themes);
+    setActiveTheme(result.themes[0]?.name ?? activeTheme);
+    setImportNotes(
+      result.warnings.length ? result.warnings : [`Imported ${file.name}`]
+    );
+  }
+
+  async function importSwatches(file: File) {
+    try {
+      const groups = await readSwatchFile(
+        new Uint8Array(await file.arrayBuffer())
+      );
+      const added = swatchesToPalette(groups, new Set(rows.map((r) => r.id)));
+      if (!added.length) throw new Error("No colors found");
+      setRows((prev) => [...prev, ...added]);
+      setSwatchNote(`Added ${added.length} color(s) from ${file.name}`);
+    } catch (e: any) {
+      setSwatchNote(`${file.name}: ${e?.message || "Could not be read"}`);
+    }
+  }
+
+  function exportSwatches(
+    format: "ase" | "gpl" | "procreate" | "svg" | "png"
+  ) {
+    const groups = rampSwatchGroups(swatchRamps);
+    if (format === "ase") {
+      download("palette.ase", encodeAse(groups), "application/octet-stream");
+    } else if (format === "gpl") {
+      download("palette.gpl", encodeGpl("Ramp to CSS", groups));
+    } else if (format === "procreate") {
+      // One Procreate palette per ramp
+      const files = swatchRamps.map((r, i) => ({
+        filename: `${r.id}.swatches`,
+        content: encodeProcreate(groups[i])
+      }));
+      if (files.length === 1) {
+        download(files[0].filename, files[0].content, "application/zip");
+      } else {
+        download("palette-swatches.zip", zipFiles(files), "application/zip");
+      }
+    } else {
+      const svg = swatchSheetSvg(swatchRamps);
+      if (format === "svg") download("swatches.svg", svg, "image/svg+xml");
+      else
+        svgToPng(svg).then(
+          (png) => download("swatches.png", png),
+          (e) => setSwatchNote(e.message)
+        );
+    }
+  }
+
+  async function copyShareLink() {
+    const fragment = await encodeShareFragment({
+      palette: rows,
+      mapping,
+      stopSet: getScale(scale.id) ? scale.id : scale,
+      theme: activeTheme,
+      rampSettings,
+      alignment,
+      schema,
+      themes
+    });
+    copy(`${location.origin}${location.pathname}#${fragment}`);
   }
 
   async function copy(text: string) {
@@ -154,8 +797,12 @@ export default function Page() {
     }
   }
 
-  function download(filename: string, text: string) {
-    const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+  function download(
+    filename: string,
+    data: BlobPart,
+    type = "text/plain;charset=utf-8"
+  ) {
+    const blob = data instanceof Blob ? data : new Blob([data], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
@@ -173,54 +820,88 @@ export default function Page() {
         <div>
           <h1 className="h1">Ramp to CSS</h1>
           <p className="sub">
-            Generates 9-step ramps (100–900) using your Figma gradient-stop
-            technique, then exports CSS tokens.
+            Generates {scale.steps.length}-step ramps ({scale.steps[0]}–
+            {scale.steps[scale.steps.length - 1]}) using your Figma
+            gradient-stop technique, then exports CSS tokens.
           </p>
         </div>
 
-        <div className="row">
+        <div className="row" style={{ flexWrap: "wrap" }}>
           <span className="pill">Theme</span>
-          <button
-            className="btn"
-            onClick={() => setActiveTheme("light")}
-            disabled={activeTheme === "light"}
-          >
-            Light
-          </button>
-          <button
-            className="btn"
-            onClick={() => setActiveTheme("dark")}
-            disabled={activeTheme === "dark"}
+          {themes.map((t) => (
+            <button
+              key={t.name}
+              className="btn"
+              onClick={() => setActiveTheme(t.name)}
+              disabled={activeTheme === t.name}
+              style={{ textTransform: "capitalize" }}
+            >
+              {t.name}
+            </button>
+          ))}
+          <select
+            className="select"
+            value={vision}
+            onChange={(e) => setVision(e.target.value as VisionMode)}
+            title="Simulate how swatches and the preview look"
+            style={{ width: 230 }}
           >
-            Dark
-          </button>
+            {VISION_MODES.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+          </select>
         </div>
       </div>
 
       <div className="grid">
+        <section className="card" style={{ gridColumn: "1 / -1" }}>
+          <h2 style={{ marginTop: 0, fontSize: 16 }}>Projects</h2>
+          <ProjectManager
+            projects={projects}
+            currentId={projectId}
+            snapshots={snapshots}
+            comparing={comparing}
+            onSelect={openProject}
+            onCreate={newProject}
+            onRename={renameCurrentProject}
+            onDuplicate={duplicateCurrentProject}
+            onDelete={deleteCurrentProject}
+            onSnapshot={saveSnapshot}
+            onRestore={restoreSnapshot}
+            onCompare={(snapshot) => setComparingId(snapshot?.id ?? null)}
+            onDeleteSnapshot={removeSnapshot}
+          />
+        </section>
+
         <section className="card">
           <div className="row" style={{ justifyContent: "space-between" }}>
-            <div className="row">
-              <span className="pill">Ramp stop set</span>
-              <select
-                className="select"
-                value={stopSet}
-                onChange={(e) => setStopSet(e.target.value as any)}
-                style={{ width: 220 }}
-              >
-                <option value="figma">
-                  Figma-like (0,13,25,38,50,63,75,88,100)
-                </option>
-                <option value="even">
-                  Even (0,12.5,25,37.5,50,62.5,75,87.5,100)
-                </option>
-              </select>
-            </div>
+            <strong>Ramps</strong>
             <button className="btn" onClick={addColor}>
               + Add color
             </button>
           </div>
 
+          <div style={{ height: 10 }} />
+          <RampControls
+            scale={scale}
+            settings={rampSettings}
+            alignment={alignment}
+            onScaleChange={changeScale}
+            onSettingsChange={setRampSettings}
+            onAlignmentChange={setAlignment}
+          />
+          {scaleErrors.map((e) => (
+            <div
+              key={e}
+              className="small"
+              style={{ color: "#b00020", marginTop: 6 }}
+            >
+              {e}
+            </div>
+          ))}
+
           <div style={{ height: 12 }} />
 
           {computed.map((r) => (
@@ -254,14 +935,69 @@ export default function Page() {
                       className="input"
                       value={r.hex}
                       onChange={(e) => updateRow(r.id, { hex: e.target.value })}
-                      placeholder="#RRGGBB"
-                      style={{ width: 140 }}
+                      placeholder="#RRGGBB, rgb(), oklch()…"
+                      title="Any CSS color: hex (incl. #RRGGBBAA), rgb(), hsl(), oklch(), names…"
+                      style={{ width: 180 }}
                     />
+                    <select
+                      className="select"
+                      value={String(r.anchor ?? "middle")}
+                      onChange={(e) =>
+                        updateRow(r.id, { anchor: parseAnchor(e.target.value) })
+                      }
+                      title="Step the base color is placed at"
+                      style={{ width: 150 }}
+                    >
+                      <option value="middle">Base at middle</option>
+                      <option value="auto">
+                        {r.anchor === "auto" && r.baseStep != null
+                          ? `Base at auto (${r.baseStep})`
+                          : "Base at auto (by L)"}
+                      </option>
+                      {scale.steps.map((s) => (
+                        <option key={s} value={s}>
+                          Base at {s}
+                        </option>
+                      ))}
+                    </select>
                     <button className="btn" onClick={() => removeColor(r.id)}>
                       Delete
                     </button>
                   </div>
 
+                  {r.parsed ? <ParsedColorNote color={r.parsed} /> : null}
+
+                  <details style={{ marginTop: 8 }}>
+                    <summary className="small" style={{ cursor: "pointer" }}>
+                      Interpolation:{" "}
+                      {r.interpolation ? "custom for this color" : "palette"}
+                    </summary>
+                    <div style={{ marginTop: 8 }}>
+                      <label className="row small" style={{ marginBottom: 8 }}>
+                        <input
+                          type="checkbox"
+                          checked={!!r.interpolation}
+                          onChange={(e) =>
+                            updateRow(r.id, {
+                              interpolation: e.target.checked
+                                ? rampSettings
+                                : undefined
+                            })
+                          }
+                        />
+                        Override palette space and curves
+                      </label>
+                      {r.interpolation ? (
+                        <InterpolationFields
+                          settings={r.interpolation}
+                          onChange={(interpolation) =>
+                            updateRow(r.id, { interpolation })
+                          }
+                        />
+                      ) : null}
+                    </div>
+                  </details>
+
                   {r.error ? (
                     <div
                       className="small"
@@ -272,29 +1008,179 @@ export default function Page() {
                   ) : null}
 
                   {r.ramp ? (
-                    <div style={{ marginTop: 12 }} className="swatchGrid">
-                      {STEPS.map((s) => (
-                        <div
-                          key={s}
-                          className="swatch"
-                          title={`${r.id}-${s} ${r.ramp?.[s]}`}
-                        >
+                    <div
+                      className="swatchGrid"
+                      style={{
+                        marginTop: 12,
+                        gridTemplateColumns: `repeat(${scale.steps.length}, minmax(0, 1fr))`
+                      }}
+                    >
+                      {scale.steps.map((s) => {
+                        const g = r.gamut?.[s];
+                        const m = r.metrics?.steps.find((x) => x.step === s);
+                        const locked = r.locks?.[s] !== undefined;
+                        const selected =
+                          editing?.id === r.id && editing.step === s;
+                        return (
                           <div
-                            className="swatchTop"
-                            style={{ background: r.ramp?.[s] }}
-                          />
-                          <div className="swatchLabel">
-                            <div>{s}</div>
-                            <div>{r.ramp?.[s]}</div>
+                            key={s}
+                            className={`swatch${
+                              s === r.baseStep ? " swatchBase" : ""
+                            }${selected ? " swatchSelected" : ""}`}
+                            title={`${r.id}-${s} ${r.ramp?.[s]}${
+                              s === r.baseStep ? " (base color)" : ""
+                            }${locked ? " (locked)" : ""}${
+                              m ? `\nL ${m.l} · C ${m.c}` : ""
+                            }${
+                              m?.deltaE2000 != null
+                                ? ` · ΔE ${m.deltaE2000} from previous`
+                                : ""
+                            }${
+                              g?.clip ? `\nUnclamped: ${g.wide}` : ""
+                            }\nClick to edit`}
+                            onClick={() =>
+                              setEditing(selected ? null : { id: r.id, step: s })
+                            }
+                            style={{ cursor: "pointer" }}
+                          >
+                            <div
+                              className="swatchTop"
+                              style={{
+                                background: simulateColor(
+                                  wideGamut && g?.clip ? g.wide : r.ramp![s],
+                                  vision
+                                )
+                              }}
+                            />
+                            <div className="swatchLabel">
+                              <div>
+                                {s}
+                                {s === r.baseStep ? " · base" : ""}
+                                {locked ? " · locked" : ""}
+                              </div>
+                              <div>{r.ramp?.[s]}</div>
+                              {g?.clip ? (
+                                <div
+                                  className="swatchClip"
+                                  title="OKLab distance the sRGB hex moved from the unclamped color (×100)"
+                                >
+                                  clipped {(g.clip * 100).toFixed(1)}
+                                  {g.outsideP3 ? " · >P3" : ""}
+                                </div>
+                              ) : null}
+                            </div>
                           </div>
+                        );
+                      })}
+                    </div>
+                  ) : null}
+
+                  {r.metrics?.warnings.length ? (
+                    <div style={{ marginTop: 6 }}>
+                      {r.metrics.warnings.map((w) => (
+                        <div
+                          key={`${w.kind}${w.step}`}
+                          className="small"
+                          style={{ color: "#9a6700" }}
+                        >
+                          ⚠ {w.message}
                         </div>
                       ))}
                     </div>
                   ) : null}
+
+                  {r.ramp && editing?.id === r.id && r.ramp[editing.step] ? (
+                    <StepEditor
+                      step={editing.step}
+                      value={r.ramp[editing.step]}
+                      locked={r.locks?.[editing.step] !== undefined}
+                      onLock={(hex) => lockStep(r.id, editing.step, hex)}
+                      onUnlock={() => unlockStep(r.id, editing.step)}
+                      onClose={() => setEditing(null)}
+                    />
+                  ) : null}
+
+                  {r.locks ? (
+                    <div className="row small" style={{ marginTop: 8 }}>
+                      <span>
+                        {Object.keys(r.locks).length} locked step(s)
+                      </span>
+                      <label className="row">
+                        <input
+                          type="checkbox"
+                          checked={!!r.reflow}
+                          onChange={(e) =>
+                            updateRow(r.id, { reflow: e.target.checked })
+                          }
+                        />
+                        Blend neighbors into locked steps
+                      </label>
+                      <button className="btn" onClick={() => unlockStep(r.id)}>
+                        Reset all overrides
+                      </button>
+                    </div>
+                  ) : null}
                 </div>
               </div>
             </div>
           ))}
+
+          <div className="small" style={{ marginBottom: 6 }}>
+            Lightness (OKLCH L) per step
+            {alignment ? " · dashed line is the shared target" : ""}
+          </div>
+          <LightnessChart
+            scale={scale}
+            ramps={computed.flatMap((r) =>
+              r.ramp && r.parsed
+                ? [{ id: r.id, hex: r.parsed.hex, ramp: r.ramp }]
+                : []
+            )}
+            alignment={alignment}
+          />
+
+          <div
+            className="row small"
+            style={{ marginTop: 12, flexWrap: "wrap" }}
+          >
+            <label className="btn" style={{ cursor: "pointer" }}>
+              Import swatches (.ase, .gpl, .swatches)
+              <input
+                type="file"
+                accept=".ase,.gpl,.swatches"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importSwatches(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <span>Download ramps as</span>
+            {(
+              [
+                ["ase", "ASE"],
+                ["gpl", "GPL"],
+                ["procreate", "Procreate"],
+                ["svg", "SVG sheet"],
+                ["png", "PNG sheet"]
+              ] as const
+            ).map(([format, label]) => (
+              <button
+                key={format}
+                className="btn"
+                onClick={() => exportSwatches(format)}
+                disabled={!swatchRamps.length}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {swatchNote ? (
+            <div className="small" style={{ marginTop: 6 }}>
+              {swatchNote}
+            </div>
+          ) : null}
         </section>
 
         <aside className="card">
@@ -304,129 +1190,242 @@ export default function Page() {
             semantic layer.
           </p>
 
-          {(["light", "dark"] as ThemeName[]).map((theme) => (
+          <label className="row small" style={{ marginBottom: 12 }}>
+            <input
+              type="checkbox"
+              checked={solveContrast}
+              onChange={(e) => setSolveContrast(e.target.checked)}
+            />
+            Solve for contrast (move text, border and accent steps until they
+            meet their minimum ratio against the surface)
+          </label>
+
+          {themes.map(({ name: theme, extends: parent }) => (
             <div
               key={theme}
               className="card"
               style={{ background: "#fff", marginBottom: 12 }}
             >
               <div className="row" style={{ justifyContent: "space-between" }}>
-                <strong style={{ textTransform: "capitalize" }}>{theme}</strong>
+                <input
+                  className="input"
+                  defaultValue={theme}
+                  onBlur={(e) => {
+                    if (!renameTheme(theme, slugifyId(e.target.value)))
+                      e.target.value = theme;
+                  }}
+                  style={{ fontWeight: 600, width: 160 }}
+                />
                 <span className="pill">data-theme="{theme}"</span>
               </div>
 
               <div style={{ height: 10 }} />
 
-              <MappingSelect
-                label="Surface primary"
-                value={mapping[theme].surfacePrimary}
-                options={colorIds}
-                onChange={(v) => updateMapping(theme, "surfacePrimary", v)}
-              />
-              <MappingSelect
-                label="Surface inverse"
-                value={mapping[theme].surfaceInverse}
-                options={colorIds}
-                onChange={(v) => updateMapping(theme, "surfaceInverse", v)}
-              />
-              <MappingSelect
-                label="Text primary"
-                value={mapping[theme].textPrimary}
-                options={colorIds}
-                onChange={(v) => updateMapping(theme, "textPrimary", v)}
-              />
-              <MappingSelect
-                label="Text inverse"
-                value={mapping[theme].textInverse}
-                options={colorIds}
-                onChange={(v) => updateMapping(theme, "textInverse", v)}
-              />
-              <MappingSelect
-                label="Accent primary"
-                value={mapping[theme].accentPrimary}
-                options={colorIds}
-                onChange={(v) => updateMapping(theme, "accentPrimary", v)}
-              />
-              <MappingSelect
-                label="Accent inverse"
-                value={mapping[theme].accentInverse}
-                options={colorIds}
-                onChange={(v) => updateMapping(theme, "accentInverse", v)}
-              />
+              <div className="row">
+                <select
+                  className="select"
+                  value={parent ?? ""}
+                  onChange={(e) =>
+                    setThemeParent(theme, e.target.value || undefined)
+                  }
+                >
+                  <option value="">No parent</option>
+                  {themes
+                    .filter((t) => t.name !== theme)
+                    .map((t) => (
+                      <option key={t.name} value={t.name}>
+                        Extends {t.name}
+                      </option>
+                    ))}
+                </select>
+                <button
+                  className="btn"
+                  onClick={() => removeTheme(theme)}
+                  disabled={themes.length <= 1}
+                >
+                  Delete
+                </button>
+              </div>
+
+              <div style={{ height: 10 }} />
+
+              {schema.slots.map((slot) => (
+                <MappingSelect
+                  key={slot.key}
+                  label={slot.label}
+                  value={mapping[theme]?.[slot.key] ?? ""}
+                  options={colorIds}
+                  inherited={
+                    parent
+                      ? resolveMapping(themes, mapping, parent)[slot.key] ?? ""
+                      : undefined
+                  }
+                  onChange={(v) => updateMapping(theme, slot.key, v)}
+                />
+              ))}
 
               <div style={{ height: 8 }} />
               <div className="small">
-                Defaults: surfaces use 100/200 in light and 900/800 in dark, text
-                uses 900 in light and 100 in dark, accents use 500/600/700 for
+                Steps come from the semantic schema below. The default schema
+                uses 100/200 for surfaces in light and 900/800 in dark, 900 for
+                text in light and 100 in dark, and 500/600/700 for accent
                 states.
+                {solveContrast
+                  ? " Solving treats these as starting points: text 7:1 / 4.5:1, strong borders and accents 3:1."
+                  : null}
               </div>
+
+              {tokenBundle
+                ? tokenBundle.unsatisfied
+                    .filter((u) => u.theme === theme)
+                    .map((u) => (
+                      <div
+                        key={u.token}
+                        className="small"
+                        style={{ color: "#b00020", marginTop: 6 }}
+                      >
+                        {u.token} cannot reach {u.target}:1 on {u.against}{" "}
+                        (best step gives {u.best}:1)
+                      </div>
+                    ))
+                : null}
+
+              {tokenBundle ? (
+                <>
+                  <div style={{ height: 10 }} />
+                  <ContrastTable results={tokenBundle.json.audit[theme]} />
+                </>
+              ) : null}
             </div>
           ))}
 
+          <button className="btn" onClick={addTheme} style={{ marginBottom: 12 }}>
+            + Add theme
+          </button>
+
           <h2 style={{ fontSize: 16 }}>Export</h2>
           <div className="row" style={{ marginBottom: 8 }}>
-            <button
-              className="btn"
-              onClick={() => setExportTab("css")}
-              disabled={exportTab === "css"}
-            >
-              CSS
-            </button>
-            <button
-              className="btn"
-              onClick={() => setExportTab("json")}
-              disabled={exportTab === "json"}
-            >
-              JSON
+            <label className="btn" style={{ cursor: "pointer" }}>
+              Import tokens.css / .json / Figma Variables
+              <input
+                type="file"
+                accept=".css,.json,text/css,application/json"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button className="btn" onClick={copyShareLink}>
+              Copy share link
             </button>
           </div>
+          {importNotes
+            ? importNotes.map((n) => (
+                <div key={n} className="small" style={{ marginBottom: 4 }}>
+                  {n}
+                </div>
+              ))
+            : null}
+          <label className="row small" style={{ marginBottom: 8 }}>
+            <input
+              type="checkbox"
+              checked={!!wideGamut}
+              onChange={(e) => setWideGamut(e.target.checked ? "p3" : null)}
+            />
+            Wide gamut: redefine clipped primitives on P3 displays (hex stays
+            as the sRGB fallback)
+            {wideGamut ? (
+              <select
+                className="select"
+                value={wideGamut}
+                onChange={(e) =>
+                  setWideGamut(e.target.value as WideGamutFormat)
+                }
+                style={{ width: 150 }}
+              >
+                <option value="p3">color(display-p3)</option>
+                <option value="oklch">oklch()</option>
+              </select>
+            ) : null}
+          </label>
+          <div className="row" style={{ marginBottom: 8, flexWrap: "wrap" }}>
+            {EXPORTERS.map((e) => (
+              <button
+                key={e.id}
+                className="btn"
+                onClick={() => setExportTab(e.id)}
+                disabled={exportTab === e.id}
+              >
+                {e.label}
+              </button>
+            ))}
+          </div>
 
-          {!tokenBundle ? (
+          {!exportFiles ? (
             <div className="small" style={{ color: "#b00020" }}>
               Fix palette errors and make sure theme mapping references existing
               color ids to enable export.
             </div>
-          ) : (
-            <>
+          ) : exporter.archive ? (
+            <div style={{ marginBottom: 12 }}>
               <div className="row" style={{ marginBottom: 8 }}>
-                <button
-                  className="btn"
-                  onClick={() =>
-                    copy(
-                      exportTab === "css"
-                        ? tokenBundle.css
-                        : JSON.stringify(tokenBundle.json, null, 2)
-                    )
-                  }
-                >
-                  Copy
-                </button>
+                <span className="pill">{exporter.archive}</span>
+                <span className="small">{exportFiles.length} files</span>
                 <button
                   className="btn"
                   onClick={() =>
                     download(
-                      exportTab === "css" ? "tokens.css" : "tokens.json",
-                      exportTab === "css"
-                        ? tokenBundle.css
-                        : JSON.stringify(tokenBundle.json, null, 2)
+                      exporter.archive!,
+                      zipFiles(exportFiles),
+                      "application/zip"
                     )
                   }
                 >
                   Download
                 </button>
               </div>
-
               <textarea
                 className="input"
-                style={{ height: 360, fontFamily: "var(--mono)", fontSize: 12 }}
-                value={
-                  exportTab === "css"
-                    ? tokenBundle.css
-                    : JSON.stringify(tokenBundle.json, null, 2)
-                }
+                style={{
+                  height: 240,
+                  fontFamily: "var(--mono)",
+                  fontSize: 12
+                }}
+                value={exportFiles.map((f) => f.filename).join("\n")}
                 readOnly
               />
-            </>
+            </div>
+          ) : (
+            exportFiles.map((f) => (
+              <div key={f.filename} style={{ marginBottom: 12 }}>
+                <div className="row" style={{ marginBottom: 8 }}>
+                  <span className="pill">{f.filename}</span>
+                  <button className="btn" onClick={() => copy(f.content)}>
+                    Copy
+                  </button>
+                  <button
+                    className="btn"
+                    onClick={() => download(f.filename, f.content)}
+                  >
+                    Download
+                  </button>
+                </div>
+
+                <textarea
+                  className="input"
+                  style={{
+                    height: exportFiles.length > 1 ? 240 : 360,
+                    fontFamily: "var(--mono)",
+                    fontSize: 12
+                  }}
+                  value={f.content}
+                  readOnly
+                />
+              </div>
+            ))
           )}
 
           <div style={{ height: 12 }} />
@@ -447,6 +1446,94 @@ export default function Page() {
    background: var(--btn-primary-bg);`}
           </pre>
         </aside>
+
+        <section className="card" style={{ gridColumn: "1 / -1" }}>
+          <h2 style={{ marginTop: 0, fontSize: 16 }}>Preview</h2>
+          <p className="small" style={{ marginTop: 0 }}>
+            Sample UI styled only with the exported tokens.css, one frame per
+            theme. Hover the controls to see live states.
+          </p>
+          {tokenBundle ? (
+            <TokenPreview
+              css={simulateCss(tokenBundle.css, vision)}
+              themes={themes.map((t) => t.name)}
+            />
+          ) : (
+            <div className="small" style={{ color: "#b00020" }}>
+              Fix the errors above to see the preview.
+            </div>
+          )}
+
+          <div style={{ height: 12 }} />
+          <div className="row small">
+            <strong>Color vision check</strong>
+            <span>accent/surface pairs closer than ΔE2000</span>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              max={50}
+              step={1}
+              value={distinctDeltaE}
+              onChange={(e) =>
+                setDistinctDeltaE(parseFloat(e.target.value) || 0)
+              }
+              style={{ width: 70 }}
+            />
+            <span>under any simulation</span>
+          </div>
+          {visionConflicts.length ? (
+            <div style={{ marginTop: 6 }}>
+              {visionConflicts.map((c) => (
+                <div
+                  key={`${c.theme}${c.mode}${c.accent}${c.surface}`}
+                  className="small"
+                  style={{ color: "#b00020" }}
+                >
+                  {c.theme}: {c.accent} on {c.surface} is ΔE {c.deltaE} with{" "}
+                  {VISION_MODES.find((m) => m.id === c.mode)?.label.toLowerCase()}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="small" style={{ marginTop: 6 }}>
+              No accent/surface pair becomes indistinguishable.
+            </div>
+          )}
+        </section>
+
+        <section className="card" style={{ gridColumn: "1 / -1" }}>
+          <h2 style={{ marginTop: 0, fontSize: 16 }}>Semantic schema</h2>
+          <p className="small" style={{ marginTop: 0 }}>
+            Each role reads a step from a slot&apos;s ramp per theme, or aliases
+            an earlier role. Slots appear in the theme mapping above.
+          </p>
+          <SchemaEditor
+            schema={schema}
+            scale={scale}
+            themes={themes}
+            errors={schemaErrors}
+            onChange={updateSchema}
+            onRenameRole={(from, to) =>
+              setRegistry((prev) => renameRegistryToken(prev, from, to))
+            }
+          />
+        </section>
+
+        <section className="card" style={{ gridColumn: "1 / -1" }}>
+          <h2 style={{ marginTop: 0, fontSize: 16 }}>Component tokens</h2>
+          <p className="small" style={{ marginTop: 0 }}>
+            Each component maps its parts to semantic tokens per state. Tokens
+            are named --id-part for the default state and --id-part-state for
+            the others.
+          </p>
+          <ComponentEditor
+            registry={registry}
+            tokens={schema.roles.map((r) => r.token)}
+            errors={registryErrors}
+            onChange={setRegistry}
+          />
+        </section>
       </div>
     </main>
   );
@@ -456,6 +1543,8 @@ function MappingSelect(props: {
   label: string;
   value: string;
   options: string[];
+  /** Parent theme's value; when set, an empty value means "inherit". */
+  inherited?: string;
   onChange: (v: string) => void;
 }) {
   return (
@@ -468,6 +1557,9 @@ function MappingSelect(props: {
         value={props.value}
         onChange={(e) => props.onChange(e.target.value)}
       >
+        {props.inherited !== undefined ? (
+          <option value="">Inherit ({props.inherited})</option>
+        ) : null}
         {props.options.map((o) => (
           <option key={o} value={o}>
             {o}
@@ -478,12 +1570,106 @@ function MappingSelect(props: {
   );
 }
 
-function uniqueId(base: string, used: Set<string>) {
-  let i = 1;
-  let id = base;
-  while (used.has(id)) {
-    i += 1;
-    id = `${base}-${i}`;
-  }
-  return id;
+/** Rasterizes an SVG at 2x so printed sheets stay sharp. */
+function svgToPng(svg: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = img.width * 2;
+      canvas.height = img.height * 2;
+      const ctx = canvas.getContext("2d")!;
+      ctx.scale(2, 2);
+      ctx.drawImage(img, 0, 0);
+      canvas.toBlob(
+        (png) => (png ? resolve(png) : reject(new Error("PNG export failed"))),
+        "image/png"
+      );
+    };
+    img.onerror = () => reject(new Error("Could not render the swatch sheet"));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+function parseAnchor(value: string): BaseAnchor {
+  if (value === "middle" || value === "auto") return value;
+  return Number(value);
+}
+
+function renameKey<T>(
+  record: Record<string, T>,
+  from: string,
+  to: string
+): Record<string, T> {
+  const out: Record<string, T> = {};
+  for (const [k, v] of Object.entries(record)) out[k === from ? to : k] = v;
+  return out;
+}
+
+function ParsedColorNote(props: { color: ParsedColor }) {
+  const { hex, oklch, alpha, inGamut } = props.color;
+  return (
+    <div className="small" style={{ marginTop: 6 }}>
+      oklch({oklch.l.toFixed(3)} {oklch.c.toFixed(3)} {oklch.h.toFixed(1)}) ·{" "}
+      {hex}
+      {!inGamut ? (
+        <span style={{ color: "#b26a00" }}>
+          {" "}
+          · outside sRGB, clamped for the base step
+        </span>
+      ) : null}
+      {alpha < 1 ? (
+        <span style={{ color: "#b26a00" }}>
+          {" "}
+          · alpha {Math.round(alpha * 100)}% is ignored
+        </span>
+      ) : null}
+    </div>
+  );
+}
+
+function ContrastTable(props: { results: ContrastResult[] }) {
+  const failing = props.results.filter((r) => !r.aa).length;
+  return (
+    <div>
+      <div className="small" style={{ marginBottom: 6 }}>
+        Contrast audit:{" "}
+        {failing === 0
+          ? "all pairs pass WCAG AA"
+          : `${failing} pair${failing === 1 ? "" : "s"} below WCAG AA`}
+      </div>
+      <table className="audit">
+        <thead>
+          <tr>
+            <th>Pair</th>
+            <th>WCAG</th>
+            <th>AA</th>
+            <th>AAA</th>
+            <th>APCA Lc</th>
+          </tr>
+        </thead>
+        <tbody>
+          {props.results.map((r) => (
+            <tr key={`${r.fg}|${r.bg}`}>
+              <td title={`${r.fgHex} on ${r.bgHex}`}>
+                <span
+                  className="auditChip"
+                  style={{ background: r.bgHex, color: r.fgHex }}
+                >
+                  Aa
+                </span>
+                {r.fg.slice(2)} / {r.bg.slice(2)}
+              </td>
+              <td>{r.ratio.toFixed(2)}</td>
+              <td className={r.aa ? "pass" : "fail"}>{r.aa ? "✓" : "✗"}</td>
+              <td className={r.aaa ? "pass" : "fail"}>{r.aaa ? "✓" : "✗"}</td>
+              <td className={r.apcaPass ? "pass" : "fail"}>
+                {r.apca.toFixed(1)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
 }
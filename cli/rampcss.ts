@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { buildFromConfig, type RampcssConfig } from "../lib/config";
+import { EXPORTERS, getExporter, type ExportFile } from "../lib/exporters";
+
+const USAGE = `Usage: rampcss build <config.json> [options]
+
+Options:
+  --out <path>       File (e.g. tokens.css) or directory to write to (default: .)
+  --format <list>    Comma-separated: ${EXPORTERS.map((e) => e.id).join(", ")}
+                     (default: css)
+  --check            Write nothing; exit 1 if any output is missing or stale
+
+The config has the same shape the app saves for each project.`;
+
+type Args = {
+  config: string;
+  out: string;
+  formats: string[];
+  check: boolean;
+};
+
+function parseArgs(argv: string[]): Args {
+  const [command, config, ...rest] = argv;
+  if (command !== "build" || !config || config.startsWith("--"))
+    throw new Error("Expected: rampcss build <config.json>");
+
+  const args: Args = { config, out: ".", formats: ["css"], check: false };
+  for (let i = 0; i < rest.length; i++) {
+    const flag = rest[i];
+    if (flag === "--check") {
+      args.check = true;
+    } else if (flag === "--out" || flag === "--format") {
+      const value = rest[++i];
+      if (!value) throw new Error(`${flag} needs a value`);
+      if (flag === "--out") args.out = value;
+      else args.formats = value.split(",").map((f) => f.trim()).filter(Boolean);
+    } else {
+      throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  const unknown = args.formats.filter((f) => !getExporter(f));
+  if (unknown.length) throw new Error(`Unknown format "${unknown[0]}"`);
+  return args;
+}
+
+/**
+`--out tokens.css` names the files after its stem, next to it (tokens.css,
+tokens.json, _tokens.scss); a path without an extension is a directory.
+*/
+function outputPath(out: string, file: ExportFile) {
+  if (!path.extname(out)) return path.join(out, file.filename);
+  const stem = path.basename(out, path.extname(out));
+  return path.join(
+    path.dirname(out),
+    file.filename.replace(/^(_?)tokens/, `$1${stem}`)
+  );
+}
+
+function main(argv: string[]) {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let args: Args;
+  let config: RampcssConfig;
+  try {
+    args = parseArgs(argv);
+    config = JSON.parse(readFileSync(args.config, "utf8"));
+  } catch (e: any) {
+    console.error(`rampcss: ${e?.message ?? e}\n\n${USAGE}`);
+    return 2;
+  }
+
+  let files: { target: string; content: string }[];
+  try {
+    const bundle = buildFromConfig(config);
+    files = args.formats.flatMap((f) =>
+      getExporter(f)!
+        .build(bundle)
+        .map((file) => ({
+          target: outputPath(args.out, file),
+          content: file.content
+        }))
+    );
+  } catch (e: any) {
+    console.error(`rampcss: ${args.config}: ${e?.message ?? e}`);
+    return 2;
+  }
+
+  if (args.check) {
+    const stale = files.filter(
+      (f) => !existsSync(f.target) || readFileSync(f.target, "utf8") !== f.content
+    );
+    for (const f of stale) console.error(`out of date: ${f.target}`);
+    if (stale.length) {
+      console.error("Run the same command without --check to update.");
+      return 1;
+    }
+    console.log(`${files.length} file(s) up to date`);
+    return 0;
+  }
+
+  for (const f of files) {
+    mkdirSync(path.dirname(f.target), { recursive: true });
+    writeFileSync(f.target, f.content);
+    console.log(`wrote ${f.target}`);
+  }
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
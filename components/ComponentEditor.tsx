@@ -0,0 +1,190 @@
+"use client";
+
+import React from "react";
+import {
+  BUILTIN_COMPONENTS,
+  COMPONENT_STATES,
+  type ComponentDefinition,
+  type ComponentPart
+} from "@/lib/registry";
+import { slugifyId, uniqueId } from "@/lib/tokens";
+
+export default function ComponentEditor(props: {
+  registry: ComponentDefinition[];
+  /** Semantic tokens a part can point at. */
+  tokens: string[];
+  errors: string[];
+  onChange: (registry: ComponentDefinition[]) => void;
+}) {
+  const { registry, tokens, onChange } = props;
+
+  function updateComponent(index: number, patch: Partial<ComponentDefinition>) {
+    onChange(registry.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  }
+
+  function updatePart(index: number, partIndex: number, part: ComponentPart) {
+    const c = registry[index];
+    updateComponent(index, {
+      parts: c.parts.map((p, i) => (i === partIndex ? part : p))
+    });
+  }
+
+  function addComponent() {
+    const id = uniqueId("component", new Set(registry.map((c) => c.id)));
+    onChange([
+      ...registry,
+      {
+        id,
+        label: "New component",
+        parts: [
+          { name: "bg", states: { default: "--surface-primary" } },
+          { name: "text", states: { default: "--text-primary" } }
+        ]
+      }
+    ]);
+  }
+
+  function addPart(index: number) {
+    const c = registry[index];
+    const name = uniqueId("part", new Set(c.parts.map((p) => p.name)));
+    updateComponent(index, {
+      parts: [...c.parts, { name, states: { default: tokens[0] } }]
+    });
+  }
+
+  return (
+    <div>
+      <div className="row" style={{ justifyContent: "flex-end" }}>
+        <button className="btn" onClick={() => onChange(BUILTIN_COMPONENTS)}>
+          Reset to built-ins
+        </button>
+        <button className="btn" onClick={addComponent}>
+          + Add component
+        </button>
+      </div>
+      <div style={{ height: 8 }} />
+
+      {registry.map((c, ci) => (
+        <details
+          key={ci}
+          className="card"
+          style={{ background: "#fff", marginBottom: 8 }}
+        >
+          <summary className="row" style={{ cursor: "pointer" }}>
+            <strong>{c.label}</strong>
+            <span className="pill">--{c.id}-*</span>
+            {c.builtin ? <span className="small">built-in</span> : null}
+          </summary>
+
+          <div style={{ height: 10 }} />
+          <div className="row">
+            <input
+              className="input"
+              value={c.label}
+              onChange={(e) => updateComponent(ci, { label: e.target.value })}
+              style={{ fontFamily: "var(--sans)" }}
+            />
+            <input
+              className="input"
+              value={c.id}
+              onChange={(e) =>
+                updateComponent(ci, { id: slugifyId(e.target.value) || c.id })
+              }
+              style={{ width: 200 }}
+            />
+            <button
+              className="btn"
+              onClick={() => onChange(registry.filter((_, i) => i !== ci))}
+            >
+              Delete
+            </button>
+          </div>
+
+          <div style={{ height: 10 }} />
+          <table className="schema">
+            <thead>
+              <tr>
+                <th>Part</th>
+                {COMPONENT_STATES.map((s) => (
+                  <th key={s} style={{ textTransform: "capitalize" }}>
+                    {s}
+                  </th>
+                ))}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {c.parts.map((part, pi) => (
+                <tr key={pi}>
+                  <td>
+                    <input
+                      className="input"
+                      value={part.name}
+                      onChange={(e) =>
+                        updatePart(ci, pi, {
+                          ...part,
+                          name: slugifyId(e.target.value) || part.name
+                        })
+                      }
+                    />
+                  </td>
+                  {COMPONENT_STATES.map((state) => (
+                    <td key={state}>
+                      <select
+                        className="select"
+                        value={part.states[state] ?? ""}
+                        onChange={(e) => {
+                          const states = { ...part.states };
+                          if (e.target.value) states[state] = e.target.value;
+                          else delete states[state];
+                          updatePart(ci, pi, { ...part, states });
+                        }}
+                      >
+                        <option value="">—</option>
+                        <option value="transparent">transparent</option>
+                        {tokens.map((t) => (
+                          <option key={t} value={t}>
+                            {t}
+                          </option>
+                        ))}
+                        {part.states[state] &&
+                        part.states[state] !== "transparent" &&
+                        !tokens.includes(part.states[state]!) ? (
+                          <option value={part.states[state]}>
+                            {part.states[state]} (missing)
+                          </option>
+                        ) : null}
+                      </select>
+                    </td>
+                  ))}
+                  <td>
+                    <button
+                      className="btn"
+                      onClick={() =>
+                        updateComponent(ci, {
+                          parts: c.parts.filter((_, i) => i !== pi)
+                        })
+                      }
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ height: 8 }} />
+          <button className="btn" onClick={() => addPart(ci)}>
+            + Add part
+          </button>
+        </details>
+      ))}
+
+      {props.errors.map((e) => (
+        <div key={e} className="small" style={{ color: "#b00020", marginTop: 6 }}>
+          {e}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import React from "react";
+import {
+  lightnessTargets,
+  rampLightness,
+  validateScale,
+  type LightnessAlignment,
+  type Ramp,
+  type StepScale
+} from "@/lib/ramp";
+
+const W = 560;
+const H = 200;
+const PAD = 28;
+
+/** OKLCH L per step for every ramp, overlaid; dashed line is the shared target. */
+export default function LightnessChart(props: {
+  scale: StepScale;
+  ramps: { id: string; hex: string; ramp: Ramp }[];
+  alignment: LightnessAlignment | null;
+}) {
+  const { scale } = props;
+  const n = scale.steps.length;
+  const x = (i: number) => PAD + (n === 1 ? 0 : (i / (n - 1)) * (W - PAD * 2));
+  const y = (l: number) => H - PAD - l * (H - PAD * 2);
+  const line = (ls: number[]) =>
+    ls.map((l, i) => `${x(i).toFixed(1)},${y(l).toFixed(1)}`).join(" ");
+
+  // A custom scale is briefly invalid while its fields are being edited
+  const targets =
+    props.alignment && !validateScale(scale).length
+      ? lightnessTargets(scale, props.alignment)
+      : null;
+
+  return (
+    <svg
+      width="100%"
+      viewBox={`0 0 ${W} ${H}`}
+      role="img"
+      aria-label="Lightness per step"
+      style={{ background: "#fff", borderRadius: 12 }}
+    >
+      {[0, 0.25, 0.5, 0.75, 1].map((l) => (
+        <g key={l}>
+          <line
+            x1={PAD}
+            x2={W - PAD}
+            y1={y(l)}
+            y2={y(l)}
+            stroke="#eee"
+          />
+          <text x={4} y={y(l) + 4} fontSize={10} fill="#777">
+            {l}
+          </text>
+        </g>
+      ))}
+      {scale.steps.map((s, i) => (
+        <text
+          key={s}
+          x={x(i)}
+          y={H - 8}
+          fontSize={10}
+          fill="#777"
+          textAnchor="middle"
+        >
+          {s}
+        </text>
+      ))}
+
+      {targets ? (
+        <polyline
+          points={line(targets)}
+          fill="none"
+          stroke="#111"
+          strokeDasharray="4 4"
+        />
+      ) : null}
+      {props.ramps.map((r) => (
+        <polyline
+          key={r.id}
+          points={line(rampLightness(r.ramp))}
+          fill="none"
+          stroke={r.hex}
+          strokeWidth={2}
+        >
+          <title>{r.id}</title>
+        </polyline>
+      ))}
+    </svg>
+  );
+}
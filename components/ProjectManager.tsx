@@ -0,0 +1,148 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Project, ProjectSnapshot } from "@/lib/projects";
+
+/** Project picker plus the open project's snapshots. */
+export default function ProjectManager(props: {
+  projects: Project[];
+  currentId: string | null;
+  snapshots: ProjectSnapshot[];
+  /** Snapshot being compared and its changes up to the current state. */
+  comparing: { snapshot: ProjectSnapshot; changes: string[] } | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onSnapshot: (name: string) => void;
+  onRestore: (snapshot: ProjectSnapshot) => void;
+  onCompare: (snapshot: ProjectSnapshot | null) => void;
+  onDeleteSnapshot: (snapshot: ProjectSnapshot) => void;
+}) {
+  const { projects, currentId, snapshots, comparing } = props;
+  const current = projects.find((p) => p.id === currentId);
+  const [snapshotName, setSnapshotName] = useState("");
+
+  if (!current) {
+    return (
+      <div className="small">
+        Projects are unavailable in this browser; changes are not saved.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="row" style={{ flexWrap: "wrap" }}>
+        <select
+          className="select"
+          value={current.id}
+          onChange={(e) => props.onSelect(e.target.value)}
+          style={{ width: 200 }}
+        >
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <input
+          key={current.id}
+          className="input"
+          defaultValue={current.name}
+          onBlur={(e) => {
+            const name = e.target.value.trim();
+            if (name && name !== current.name) props.onRename(name);
+            else e.target.value = current.name;
+          }}
+          title="Rename project"
+          style={{ width: 200 }}
+        />
+        <button className="btn" onClick={props.onCreate}>
+          New
+        </button>
+        <button className="btn" onClick={props.onDuplicate}>
+          Duplicate
+        </button>
+        <button className="btn" onClick={props.onDelete}>
+          Delete
+        </button>
+      </div>
+
+      <div className="row" style={{ marginTop: 10, flexWrap: "wrap" }}>
+        <input
+          className="input"
+          placeholder="Snapshot name"
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          style={{ width: 200 }}
+        />
+        <button
+          className="btn"
+          onClick={() => {
+            props.onSnapshot(snapshotName.trim());
+            setSnapshotName("");
+          }}
+        >
+          Save snapshot
+        </button>
+      </div>
+
+      {snapshots.length ? (
+        <table className="audit" style={{ marginTop: 8 }}>
+          <tbody>
+            {snapshots.map((s) => (
+              <tr key={s.id}>
+                <td>{s.name}</td>
+                <td>{new Date(s.createdAt).toLocaleString()}</td>
+                <td>
+                  <button className="btn" onClick={() => props.onRestore(s)}>
+                    Restore
+                  </button>{" "}
+                  <button
+                    className="btn"
+                    onClick={() =>
+                      props.onCompare(
+                        comparing?.snapshot.id === s.id ? null : s
+                      )
+                    }
+                  >
+                    {comparing?.snapshot.id === s.id ? "Hide" : "Compare"}
+                  </button>{" "}
+                  <button
+                    className="btn"
+                    onClick={() => props.onDeleteSnapshot(s)}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="small" style={{ marginTop: 8 }}>
+          No snapshots yet.
+        </div>
+      )}
+
+      {comparing ? (
+        <div style={{ marginTop: 8 }}>
+          <div className="small" style={{ marginBottom: 4 }}>
+            <strong>{comparing.snapshot.name}</strong> → current
+          </div>
+          {comparing.changes.length ? (
+            comparing.changes.map((c) => (
+              <div key={c} className="small">
+                {c}
+              </div>
+            ))
+          ) : (
+            <div className="small">No differences.</div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import React from "react";
+import {
+  COLOR_SPACES,
+  CURVE_PRESETS,
+  DEFAULT_LIGHTNESS_ALIGNMENT,
+  SCALE_PRESETS,
+  curveControlPoints,
+  easeCurve,
+  getScale,
+  type ColorSpace,
+  type CurvePreset,
+  type LightnessAlignment,
+  type RampCurve,
+  type RampSettings,
+  type StepScale
+} from "@/lib/ramp";
+
+/** Stop set, interpolation space and curves for the whole palette. */
+export default function RampControls(props: {
+  scale: StepScale;
+  settings: RampSettings;
+  alignment: LightnessAlignment | null;
+  onScaleChange: (scale: StepScale) => void;
+  onSettingsChange: (settings: RampSettings) => void;
+  onAlignmentChange: (alignment: LightnessAlignment | null) => void;
+}) {
+  const { scale } = props;
+
+  return (
+    <div>
+      <div className="row" style={{ flexWrap: "wrap" }}>
+        <span className="pill">Ramp stop set</span>
+        <select
+          className="select"
+          value={scale.id}
+          onChange={(e) =>
+            props.onScaleChange(
+              getScale(e.target.value) ?? {
+                ...scale,
+                id: "custom",
+                label: "Custom"
+              }
+            )
+          }
+          style={{ width: 220 }}
+        >
+          {SCALE_PRESETS.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+          <option value="custom">Custom…</option>
+        </select>
+      </div>
+
+      {scale.id === "custom" ? (
+        <CustomScaleFields scale={scale} onChange={props.onScaleChange} />
+      ) : null}
+
+      <div style={{ height: 10 }} />
+      <InterpolationFields
+        settings={props.settings}
+        onChange={props.onSettingsChange}
+      />
+
+      <div style={{ height: 10 }} />
+      <AlignmentFields
+        alignment={props.alignment}
+        onChange={props.onAlignmentChange}
+      />
+    </div>
+  );
+}
+
+function AlignmentFields(props: {
+  alignment: LightnessAlignment | null;
+  onChange: (alignment: LightnessAlignment | null) => void;
+}) {
+  const { alignment } = props;
+  const lightnessInput = (key: "light" | "dark", label: string) => (
+    <label>
+      <div className="small" style={{ marginBottom: 6 }}>
+        {label}
+      </div>
+      <input
+        className="input"
+        type="number"
+        min={0}
+        max={1}
+        step={0.01}
+        value={alignment![key]}
+        onChange={(e) =>
+          props.onChange({
+            ...alignment!,
+            [key]: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0))
+          })
+        }
+        style={{ width: 90 }}
+      />
+    </label>
+  );
+
+  return (
+    <div>
+      <label className="row small">
+        <input
+          type="checkbox"
+          checked={!!alignment}
+          onChange={(e) =>
+            props.onChange(
+              e.target.checked ? DEFAULT_LIGHTNESS_ALIGNMENT : null
+            )
+          }
+        />
+        Align lightness across the palette (OKLCH L per step)
+      </label>
+      {alignment ? (
+        <div
+          className="row"
+          style={{ flexWrap: "wrap", alignItems: "flex-start", marginTop: 8 }}
+        >
+          {lightnessInput("light", "Lightest L")}
+          {lightnessInput("dark", "Darkest L")}
+          <CurveEditor
+            label="Shared lightness curve"
+            curve={alignment.curve}
+            onChange={(curve) => props.onChange({ ...alignment, curve })}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export function InterpolationFields(props: {
+  settings: RampSettings;
+  onChange: (settings: RampSettings) => void;
+}) {
+  const { settings } = props;
+  return (
+    <div className="row" style={{ flexWrap: "wrap", alignItems: "flex-start" }}>
+      <label>
+        <div className="small" style={{ marginBottom: 6 }}>
+          Interpolation space
+        </div>
+        <select
+          className="select"
+          value={settings.space}
+          onChange={(e) =>
+            props.onChange({ ...settings, space: e.target.value as ColorSpace })
+          }
+          style={{ width: 140 }}
+        >
+          {COLOR_SPACES.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <CurveEditor
+        label="Lightness curve"
+        curve={settings.lightness}
+        onChange={(lightness) => props.onChange({ ...settings, lightness })}
+      />
+      <CurveEditor
+        label="Chroma curve"
+        curve={settings.chroma}
+        onChange={(chroma) => props.onChange({ ...settings, chroma })}
+      />
+    </div>
+  );
+}
+
+function CurveEditor(props: {
+  label: string;
+  curve: RampCurve;
+  onChange: (curve: RampCurve) => void;
+}) {
+  const { curve } = props;
+  const points = curveControlPoints(curve);
+
+  return (
+    <label>
+      <div className="small" style={{ marginBottom: 6 }}>
+        {props.label}
+      </div>
+      <div className="row" style={{ gap: 6 }}>
+        <CurvePreview curve={curve} />
+        <div>
+          <select
+            className="select"
+            value={typeof curve === "string" ? curve : "custom"}
+            onChange={(e) =>
+              props.onChange(
+                e.target.value === "custom"
+                  ? [...points]
+                  : (e.target.value as CurvePreset)
+              )
+            }
+            style={{ width: 150 }}
+          >
+            {Object.keys(CURVE_PRESETS).map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+            <option value="custom">cubic-bezier…</option>
+          </select>
+          {typeof curve !== "string" ? (
+            <div className="row" style={{ gap: 4, marginTop: 6 }}>
+              {curve.map((v, i) => (
+                <input
+                  key={i}
+                  className="input"
+                  type="number"
+                  step={0.05}
+                  min={i % 2 === 0 ? 0 : undefined}
+                  max={i % 2 === 0 ? 1 : undefined}
+                  value={v}
+                  onChange={(e) => {
+                    const next = [...curve] as [number, number, number, number];
+                    next[i] = parseFloat(e.target.value) || 0;
+                    props.onChange(next);
+                  }}
+                  style={{ width: 64, padding: "6px 8px" }}
+                />
+              ))}
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </label>
+  );
+}
+
+function CurvePreview(props: { curve: RampCurve }) {
+  const n = 24;
+  const d = Array.from({ length: n + 1 }, (_, i) => {
+    const u = i / n;
+    const x = (u * 40).toFixed(1);
+    const y = (40 - easeCurve(props.curve, u) * 40).toFixed(1);
+    return `${i === 0 ? "M" : "L"}${x},${y}`;
+  }).join(" ");
+
+  return (
+    <svg width={44} height={44} viewBox="-2 -2 44 44" aria-hidden>
+      <rect x={0} y={0} width={40} height={40} fill="#fff" stroke="#e5e5e5" />
+      <path d={d} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+function CustomScaleFields(props: {
+  scale: StepScale;
+  onChange: (scale: StepScale) => void;
+}) {
+  const { scale } = props;
+  const parse = (text: string) =>
+    text
+      .split(",")
+      .map((x) => x.trim())
+      .filter(Boolean)
+      .map(Number);
+
+  return (
+    <div className="row" style={{ marginTop: 12 }}>
+      <label style={{ flex: 1 }}>
+        <div className="small" style={{ marginBottom: 6 }}>
+          Step names
+        </div>
+        <input
+          key={scale.steps.join(",")}
+          className="input"
+          defaultValue={scale.steps.join(", ")}
+          onBlur={(e) =>
+            props.onChange({ ...scale, steps: parse(e.target.value) })
+          }
+        />
+      </label>
+      <label style={{ flex: 1 }}>
+        <div className="small" style={{ marginBottom: 6 }}>
+          Positions (%)
+        </div>
+        <input
+          key={scale.positions.join(",")}
+          className="input"
+          defaultValue={scale.positions
+            .map((p) => Math.round(p * 1000) / 10)
+            .join(", ")}
+          onBlur={(e) =>
+            props.onChange({
+              ...scale,
+              positions: parse(e.target.value).map((p) => p / 100)
+            })
+          }
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import React from "react";
+import { getScale, type RampStep, type StepScale } from "@/lib/ramp";
+import {
+  DEFAULT_SCHEMA,
+  remapSchemaSteps,
+  renameRole,
+  type SemanticRole,
+  type SemanticSchema
+} from "@/lib/schema";
+import { resolveStep, type ThemeDefinition } from "@/lib/themes";
+import { uniqueId } from "@/lib/tokens";
+
+export default function SchemaEditor(props: {
+  schema: SemanticSchema;
+  scale: StepScale;
+  themes: ThemeDefinition[];
+  errors: string[];
+  onChange: (schema: SemanticSchema) => void;
+  /** A role's token was renamed; references outside the schema follow it. */
+  onRenameRole: (from: string, to: string) => void;
+}) {
+  const { schema, scale, themes, onChange } = props;
+  const { steps } = scale;
+  const midStep = steps[Math.floor(steps.length / 2)];
+  const defaultStep = () =>
+    Object.fromEntries(themes.map((t) => [t.name, midStep]));
+
+  function updateRole(index: number, patch: Partial<SemanticRole>) {
+    onChange({
+      ...schema,
+      roles: schema.roles.map((r, i) => (i === index ? { ...r, ...patch } : r))
+    });
+  }
+
+  function commitRename(from: string, to: string) {
+    if (!to || to === from || schema.roles.some((r) => r.token === to))
+      return false;
+    onChange(renameRole(schema, from, to));
+    props.onRenameRole(from, to);
+    return true;
+  }
+
+  function resetSchema() {
+    // The default steps are for the Figma scale
+    onChange(remapSchemaSteps(DEFAULT_SCHEMA, getScale("figma")!, scale));
+  }
+
+  function removeRole(index: number) {
+    onChange({ ...schema, roles: schema.roles.filter((_, i) => i !== index) });
+  }
+
+  function moveRole(index: number, delta: number) {
+    const to = index + delta;
+    if (to < 0 || to >= schema.roles.length) return;
+    const roles = [...schema.roles];
+    [roles[index], roles[to]] = [roles[to], roles[index]];
+    onChange({ ...schema, roles });
+  }
+
+  function addRole() {
+    const used = new Set(schema.roles.map((r) => r.token));
+    onChange({
+      ...schema,
+      roles: [
+        ...schema.roles,
+        {
+          token: uniqueId("--new-role", used),
+          slot: schema.slots[0]?.key,
+          step: defaultStep()
+        }
+      ]
+    });
+  }
+
+  function addSlot() {
+    const key = uniqueId("slot", new Set(schema.slots.map((s) => s.key)));
+    onChange({ ...schema, slots: [...schema.slots, { key, label: "New slot" }] });
+  }
+
+  function renameSlot(key: string, label: string) {
+    onChange({
+      ...schema,
+      slots: schema.slots.map((s) => (s.key === key ? { ...s, label } : s))
+    });
+  }
+
+  function removeSlot(key: string) {
+    onChange({ ...schema, slots: schema.slots.filter((s) => s.key !== key) });
+  }
+
+  return (
+    <div>
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <strong>Slots</strong>
+        <button className="btn" onClick={addSlot}>
+          + Add slot
+        </button>
+      </div>
+      <div style={{ height: 8 }} />
+      {schema.slots.map((s) => (
+        <div key={s.key} className="row" style={{ marginBottom: 6 }}>
+          <span className="pill" style={{ width: 140 }}>
+            {s.key}
+          </span>
+          <input
+            className="input"
+            value={s.label}
+            onChange={(e) => renameSlot(s.key, e.target.value)}
+            style={{ fontFamily: "var(--sans)" }}
+          />
+          <button className="btn" onClick={() => removeSlot(s.key)}>
+            Delete
+          </button>
+        </div>
+      ))}
+
+      <div style={{ height: 12 }} />
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <strong>Roles</strong>
+        <div className="row">
+          <button className="btn" onClick={resetSchema}>
+            Reset to default
+          </button>
+          <button className="btn" onClick={addRole}>
+            + Add role
+          </button>
+        </div>
+      </div>
+      <div style={{ height: 8 }} />
+
+      <table className="schema">
+        <thead>
+          <tr>
+            <th>Token</th>
+            <th>Source</th>
+            {themes.map((t) => (
+              <th key={t.name} style={{ textTransform: "capitalize" }}>
+                {t.name}
+              </th>
+            ))}
+            <th>Min contrast</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {schema.roles.map((role, i) => {
+            const earlier = schema.roles.slice(0, i).map((r) => r.token);
+            return (
+              <tr key={i}>
+                <td>
+                  <input
+                    key={role.token}
+                    className="input"
+                    defaultValue={role.token}
+                    onBlur={(e) => {
+                      const to = e.target.value.trim();
+                      if (!commitRename(role.token, to))
+                        e.target.value = role.token;
+                    }}
+                  />
+                </td>
+                <td>
+                  <select
+                    className="select"
+                    value={
+                      role.alias ? `alias:${role.alias}` : `slot:${role.slot}`
+                    }
+                    onChange={(e) => {
+                      const [kind, value] = splitOnce(e.target.value, ":");
+                      if (kind === "alias") {
+                        updateRole(i, { alias: value });
+                      } else {
+                        updateRole(i, {
+                          alias: undefined,
+                          slot: value,
+                          step: role.step ?? defaultStep()
+                        });
+                      }
+                    }}
+                  >
+                    <optgroup label="Slot">
+                      {schema.slots.map((s) => (
+                        <option key={s.key} value={`slot:${s.key}`}>
+                          {s.label}
+                        </option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Alias of">
+                      {earlier.map((t) => (
+                        <option key={t} value={`alias:${t}`}>
+                          {t}
+                        </option>
+                      ))}
+                    </optgroup>
+                  </select>
+                </td>
+                {themes.map(({ name: theme, extends: parent }) => (
+                  <td key={theme}>
+                    {role.alias ? (
+                      <span className="small">—</span>
+                    ) : (
+                      <select
+                        className="select"
+                        value={role.step?.[theme] ?? ""}
+                        onChange={(e) => {
+                          const step = { ...role.step };
+                          if (e.target.value)
+                            step[theme] = Number(e.target.value) as RampStep;
+                          else delete step[theme];
+                          updateRole(i, { step });
+                        }}
+                      >
+                        {parent ? (
+                          <option value="">
+                            {`Inherit (${resolveStep(themes, role, parent) ?? "—"})`}
+                          </option>
+                        ) : role.step?.[theme] === undefined ? (
+                          <option value="">—</option>
+                        ) : null}
+                        {steps.map((s) => (
+                          <option key={s} value={s}>
+                            {s}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                ))}
+                <td>
+                  <div className="row" style={{ gap: 4 }}>
+                    <input
+                      className="input"
+                      type="number"
+                      min={1}
+                      max={21}
+                      step={0.5}
+                      placeholder="—"
+                      value={role.minContrast?.ratio ?? ""}
+                      style={{ width: 64 }}
+                      onChange={(e) => {
+                        const ratio = parseFloat(e.target.value);
+                        updateRole(i, {
+                          minContrast: Number.isFinite(ratio)
+                            ? {
+                                against:
+                                  role.minContrast?.against ?? earlier[0] ?? "",
+                                ratio
+                              }
+                            : undefined
+                        });
+                      }}
+                    />
+                    {role.minContrast ? (
+                      <select
+                        className="select"
+                        value={role.minContrast.against}
+                        onChange={(e) =>
+                          updateRole(i, {
+                            minContrast: {
+                              ratio: role.minContrast!.ratio,
+                              against: e.target.value
+                            }
+                          })
+                        }
+                      >
+                        {earlier.map((t) => (
+                          <option key={t} value={t}>
+                            on {t}
+                          </option>
+                        ))}
+                      </select>
+                    ) : null}
+                  </div>
+                </td>
+                <td>
+                  <div className="row" style={{ gap: 4 }}>
+                    <button className="btn" onClick={() => moveRole(i, -1)}>
+                      ↑
+                    </button>
+                    <button className="btn" onClick={() => moveRole(i, 1)}>
+                      ↓
+                    </button>
+                    <button className="btn" onClick={() => removeRole(i)}>
+                      ✕
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {props.errors.map((e) => (
+        <div key={e} className="small" style={{ color: "#b00020", marginTop: 6 }}>
+          {e}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function splitOnce(value: string, sep: string): [string, string] {
+  const i = value.indexOf(sep);
+  return [value.slice(0, i), value.slice(i + sep.length)];
+}
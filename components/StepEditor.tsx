@@ -0,0 +1,101 @@
+"use client";
+
+import React from "react";
+import { parseColorInput, type RampStep } from "@/lib/ramp";
+
+/** Edits one ramp step; any edit locks the step to the new value. */
+export default function StepEditor(props: {
+  step: RampStep;
+  /** Current hex of the step, generated or locked. */
+  value: string;
+  locked: boolean;
+  onLock: (hex: string) => void;
+  onUnlock: () => void;
+  onClose: () => void;
+}) {
+  const { step, value, locked } = props;
+  const { l, c, h } = parseColorInput(value)!.oklch;
+
+  function setChannel(channel: "l" | "c" | "h", n: number) {
+    if (!Number.isFinite(n)) return;
+    const next = { l, c, h, [channel]: n };
+    const parsed = parseColorInput(`oklch(${next.l} ${next.c} ${next.h})`);
+    if (parsed) props.onLock(parsed.hex);
+  }
+
+  const channel = (
+    key: "l" | "c" | "h",
+    label: string,
+    current: number,
+    max: number,
+    increment: number
+  ) => (
+    <label>
+      <div className="small" style={{ marginBottom: 6 }}>
+        {label}
+      </div>
+      <input
+        className="input"
+        type="number"
+        min={0}
+        max={max}
+        step={increment}
+        value={+current.toFixed(increment < 1 ? 3 : 1)}
+        onChange={(e) => setChannel(key, parseFloat(e.target.value))}
+        style={{ width: 90 }}
+      />
+    </label>
+  );
+
+  return (
+    <div className="card" style={{ background: "#fafafa", marginTop: 8 }}>
+      <div className="row" style={{ alignItems: "flex-end", flexWrap: "wrap" }}>
+        <div
+          style={{
+            width: 44,
+            height: 44,
+            borderRadius: 10,
+            background: value,
+            border: "1px solid rgba(0, 0, 0, 0.08)"
+          }}
+        />
+        <strong>Step {step}</strong>
+        <label>
+          <div className="small" style={{ marginBottom: 6 }}>
+            Hex
+          </div>
+          <input
+            key={value}
+            className="input"
+            defaultValue={value}
+            onBlur={(e) => {
+              const parsed = parseColorInput(e.target.value);
+              if (parsed) props.onLock(parsed.hex);
+              else e.target.value = value;
+            }}
+            style={{ width: 110 }}
+          />
+        </label>
+        {channel("l", "L", l, 1, 0.005)}
+        {channel("c", "C", c, 0.4, 0.005)}
+        {channel("h", "h", h, 360, 1)}
+        <label className="row small">
+          <input
+            type="checkbox"
+            checked={locked}
+            onChange={(e) =>
+              e.target.checked ? props.onLock(value) : props.onUnlock()
+            }
+          />
+          Locked
+        </label>
+        <button className="btn" onClick={props.onUnlock} disabled={!locked}>
+          Reset step
+        </button>
+        <button className="btn" onClick={props.onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import React from "react";
+import type { ThemeName } from "@/lib/tokens";
+
+/*
+Sample UI styled only through the generated variables. Forced states use the
+state tokens directly, falling back to the default token when the registry
+does not define that state.
+*/
+const PREVIEW_CSS = `
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  padding: 16px;
+  font: 14px/1.4 system-ui, -apple-system, Segoe UI, Roboto, sans-serif;
+  background: var(--surface-primary);
+  color: var(--text-primary);
+}
+h3 { margin: 16px 0 8px; font-size: 11px; text-transform: uppercase;
+  letter-spacing: 0.06em; color: var(--text-muted); }
+h3:first-child { margin-top: 0; }
+.row { display: flex; gap: 8px; flex-wrap: wrap; align-items: center; }
+.state { font-size: 10px; color: var(--text-muted); text-align: center; margin-top: 4px; }
+
+.btn { font: inherit; padding: 8px 14px; border-radius: 8px; cursor: pointer;
+  border: 1px solid transparent; }
+.btn-primary { background: var(--btn-primary-bg); color: var(--btn-primary-text); }
+.btn-primary:hover, .btn-primary.hover {
+  background: var(--btn-primary-bg-hover, var(--btn-primary-bg)); }
+.btn-primary:active, .btn-primary.active {
+  background: var(--btn-primary-bg-active, var(--btn-primary-bg)); }
+.btn-primary:disabled {
+  background: var(--btn-primary-bg-disabled, var(--btn-primary-bg));
+  color: var(--btn-primary-text-disabled, var(--btn-primary-text)); cursor: default; }
+.btn-secondary { background: var(--btn-secondary-bg); color: var(--btn-secondary-text);
+  border-color: var(--btn-secondary-border); }
+.btn-secondary:hover, .btn-secondary.hover {
+  background: var(--btn-secondary-bg-hover, var(--btn-secondary-bg)); }
+.btn-secondary:active, .btn-secondary.active {
+  background: var(--btn-secondary-bg-active, var(--btn-secondary-bg)); }
+.btn-secondary:disabled {
+  color: var(--btn-secondary-text-disabled, var(--btn-secondary-text));
+  border-color: var(--btn-secondary-border-disabled, var(--btn-secondary-border));
+  cursor: default; }
+.btn:focus-visible, .btn.focus { outline: 2px solid var(--focus-ring-color, var(--accent));
+  outline-offset: 2px; }
+
+.input { font: inherit; padding: 8px 10px; border-radius: 8px; width: 100%;
+  background: var(--input-bg); color: var(--input-text);
+  border: 1px solid var(--input-border); outline: none; }
+.input::placeholder { color: var(--input-placeholder); }
+.input:focus, .input.focus { border-color: var(--input-border-focus, var(--input-border)); }
+.input:disabled { background: var(--input-bg-disabled, var(--input-bg));
+  color: var(--input-text-disabled, var(--input-text)); }
+
+.text-secondary { color: var(--text-secondary); }
+.text-muted { color: var(--text-muted); }
+.text-disabled { color: var(--text-disabled); }
+.inverse { background: var(--surface-inverse); color: var(--text-inverse);
+  padding: 8px 10px; border-radius: 8px; }
+
+.swatch { width: 64px; height: 36px; border-radius: 6px; border: 2px solid; }
+
+a { color: var(--link); }
+a:hover, a.hover { color: var(--link-hover); }
+a:active, a.active { color: var(--link-active); }
+
+.card { background: var(--card-bg); color: var(--card-text); padding: 12px;
+  border: 1px solid var(--card-border); border-radius: 10px; }
+.card:hover { background: var(--card-bg-hover, var(--card-bg));
+  border-color: var(--card-border-hover, var(--card-border)); }
+.card p { margin: 4px 0 0; color: var(--card-text-muted); }
+.badge { display: inline-block; padding: 2px 8px; border-radius: 999px; font-size: 12px;
+  background: var(--badge-bg); color: var(--badge-text); }
+.alert { padding: 10px 12px; border-radius: 8px; background: var(--alert-bg);
+  color: var(--alert-text); border: 1px solid var(--alert-border); }
+.alert strong { color: var(--alert-icon); }
+`;
+
+const BUTTON_STATES = ["", "hover", "active", "disabled"];
+
+function buttons(kind: string) {
+  return BUTTON_STATES.map(
+    (state) => `<div>
+      <button class="btn ${kind} ${state}"${state === "disabled" ? " disabled" : ""}>Button</button>
+      <div class="state">${state || "default"}</div>
+    </div>`
+  ).join("");
+}
+
+const PREVIEW_HTML = `
+<h3>Buttons</h3>
+<div class="row">${buttons("btn-primary")}</div>
+<div style="height:8px"></div>
+<div class="row">${buttons("btn-secondary")}</div>
+
+<h3>Inputs</h3>
+<div class="row" style="flex-wrap:nowrap">
+  <input class="input" placeholder="Placeholder" />
+  <input class="input focus" value="Focused" />
+  <input class="input" value="Disabled" disabled />
+</div>
+
+<h3>Text</h3>
+<div>Primary text</div>
+<div class="text-secondary">Secondary text</div>
+<div class="text-muted">Muted text</div>
+<div class="text-disabled">Disabled text</div>
+<div style="height:6px"></div>
+<div class="inverse">Inverse text on inverse surface</div>
+
+<h3>Links</h3>
+<div class="row">
+  <a href="#">Link</a> <a href="#" class="hover">Hover</a>
+  <a href="#" class="active">Active</a>
+</div>
+
+<h3>Borders</h3>
+<div class="row">
+  <div class="swatch" style="border-color:var(--border-subtle)"></div>
+  <div class="swatch" style="border-color:var(--border-default)"></div>
+  <div class="swatch" style="border-color:var(--border-strong)"></div>
+</div>
+
+<h3>Card, badge, alert</h3>
+<div class="card">
+  <strong>Card title</strong> <span class="badge">New</span>
+  <p>Muted supporting text inside a card.</p>
+</div>
+<div style="height:8px"></div>
+<div class="alert"><strong>●</strong> Heads up: this alert uses the alert tokens.</div>
+`;
+
+/** Each theme rendered in its own iframe from the exported CSS. */
+export default function TokenPreview(props: {
+  css: string;
+  themes: ThemeName[];
+}) {
+  return (
+    <div
+      style={{
+        display: "grid",
+        gridTemplateColumns: `repeat(${props.themes.length}, minmax(280px, 1fr))`,
+        gap: 12,
+        overflowX: "auto"
+      }}
+    >
+      {props.themes.map((theme) => (
+        <div key={theme}>
+          <div className="pill" style={{ marginBottom: 6 }}>
+            {`data-theme="${theme}"`}
+          </div>
+          <iframe
+            title={`Preview of the ${theme} theme`}
+            sandbox=""
+            srcDoc={`<!doctype html><html><head><style>${props.css}\n${PREVIEW_CSS}</style></head><body data-theme="${theme}">${PREVIEW_HTML}</body></html>`}
+            style={{
+              width: "100%",
+              height: 720,
+              border: "1px solid rgba(0, 0, 0, 0.08)",
+              borderRadius: 12,
+              background: "#fff"
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
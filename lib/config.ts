@@ -0,0 +1,134 @@
+import {
+  DEFAULT_RAMP_SETTINGS,
+  anchorStep,
+  applyLocks,
+  generateRamp9,
+  getScale,
+  parseColorInput,
+  rampGamut,
+  validateScale,
+  type LightnessAlignment,
+  type RampGamut,
+  type RampSettings,
+  type StepScale,
+  type WideGamutFormat
+} from "./ramp";
+import type { ComponentDefinition } from "./registry";
+import { DEFAULT_SCHEMA, type SemanticSchema } from "./schema";
+import {
+  DEFAULT_THEMES,
+  resolveMapping,
+  type ThemeDefinition
+} from "./themes";
+import {
+  buildTokens,
+  type PaletteColor,
+  type RampMap,
+  type ThemeMapping,
+  type ThemeName,
+  type TokenBundle
+} from "./tokens";
+
+/**
+Everything needed to rebuild the tokens: the shape the page saves for each
+project, and the config file the CLI reads. Only palette and mapping are
+required; the rest falls back to the page defaults.
+*/
+export type RampcssConfig = {
+  palette: PaletteColor[];
+  mapping: Record<ThemeName, ThemeMapping>;
+  /** Preset id; ignored when `scale` is present. */
+  stopSet?: string;
+  scale?: StepScale;
+  rampSettings?: RampSettings;
+  alignment?: LightnessAlignment | null;
+  wideGamut?: WideGamutFormat | null;
+  solveContrast?: boolean;
+  schema?: SemanticSchema;
+  themes?: ThemeDefinition[];
+  registry?: ComponentDefinition[];
+};
+
+export function configScale(config: RampcssConfig): StepScale {
+  const scale = config.scale ?? getScale(config.stopSet ?? "figma");
+  if (!scale) throw new Error(`Unknown stop set "${config.stopSet}"`);
+  const errors = validateScale(scale);
+  if (errors.length) throw new Error(errors[0]);
+  return scale;
+}
+
+/** Every schema slot of every theme must name a palette color. */
+function checkMapping(config: RampcssConfig) {
+  const ids = new Set(config.palette.map((c) => c.id));
+  const slots = (config.schema ?? DEFAULT_SCHEMA).slots;
+  const themes = config.themes ?? DEFAULT_THEMES;
+  for (const { name } of themes) {
+    const m = resolveMapping(themes, config.mapping, name);
+    for (const { key } of slots) {
+      if (ids.has(m[key])) continue;
+      throw new Error(
+        m[key] === undefined
+          ? `Theme "${name}": slot "${key}" has no color`
+          : `Theme "${name}": slot "${key}" maps to unknown color "${m[key]}"`
+      );
+    }
+  }
+}
+
+/** Generates every ramp and builds the token bundle, throwing on bad input. */
+export function buildFromConfig(config: RampcssConfig): TokenBundle {
+  if (!Array.isArray(config?.palette) || !config.mapping)
+    throw new Error("Config needs a palette array and a mapping object");
+
+  checkMapping(config);
+  const scale = configScale(config);
+  const settings = config.rampSettings ?? DEFAULT_RAMP_SETTINGS;
+  const alignment = config.alignment ?? undefined;
+
+  const ramps: RampMap = {};
+  const gamut: Record<string, RampGamut> = {};
+  for (const c of config.palette) {
+    if (typeof c.hex !== "string" || !parseColorInput(c.hex))
+      throw new Error(`${c.id}: Invalid hex color`);
+    const hex = c.hex.trim();
+    const interpolation = c.interpolation ?? settings;
+    const generated = generateRamp9(
+      hex,
+      scale,
+      c.anchor,
+      interpolation,
+      alignment
+    );
+    const ramp = applyLocks(
+      generated,
+      c.locks,
+      c.reflow,
+      anchorStep(hex, scale, c.anchor)
+    );
+    ramps[c.id] = ramp;
+    if (config.wideGamut) {
+      const wide = rampGamut(
+        hex,
+        scale,
+        c.anchor,
+        interpolation,
+        alignment,
+        config.wideGamut
+      );
+      // Hand-set and reflowed steps are plain sRGB
+      gamut[c.id] = Object.fromEntries(
+        Object.entries(wide).filter(([s]) => ramp[+s] === generated[+s])
+      );
+    }
+  }
+
+  return buildTokens(config.palette, ramps, config.mapping, {
+    solveContrast: config.solveContrast,
+    schema: config.schema,
+    themes: config.themes,
+    registry: config.registry,
+    wideGamut: config.wideGamut
+      ? { format: config.wideGamut, ramps: gamut }
+      : undefined
+  });
+}
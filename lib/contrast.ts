@@ -0,0 +1,148 @@
+import { converter, parse, wcagContrast } from "culori";
+import type { RampStep } from "./ramp";
+import type { RampMap, ThemeName } from "./tokens";
+
+const toRgb = converter("rgb");
+
+export type ContrastKind = "text" | "ui";
+
+export type ContrastPair = {
+  fg: string;
+  bg: string;
+  kind: ContrastKind;
+};
+
+export type ContrastResult = ContrastPair & {
+  fgHex: string;
+  bgHex: string;
+  ratio: number;
+  apca: number;
+  aa: boolean;
+  aaa: boolean;
+  apcaPass: boolean;
+};
+
+export type ContrastAudit = Record<ThemeName, ContrastResult[]>;
+
+/**
+WCAG 2.1 thresholds: 1.4.3 / 1.4.6 for text, 1.4.11 for UI components
+(non-text has no AAA level, so it reuses the AA ratio).
+APCA thresholds are the Bronze "fluent text" / "non-text" Lc minimums.
+*/
+export const CONTRAST_THRESHOLDS: Record<
+  ContrastKind,
+  { aa: number; aaa: number; apca: number }
+> = {
+  text: { aa: 4.5, aaa: 7, apca: 60 },
+  ui: { aa: 3, aaa: 3, apca: 45 }
+};
+
+/** Foreground/background pairs that buildTokens promises are readable. */
+export const CONTRAST_PAIRS: ContrastPair[] = [
+  { fg: "--text-primary", bg: "--surface-primary", kind: "text" },
+  { fg: "--text-secondary", bg: "--surface-primary", kind: "text" },
+  { fg: "--text-muted", bg: "--surface-primary", kind: "text" },
+  { fg: "--text-primary", bg: "--surface-secondary", kind: "text" },
+  { fg: "--text-inverse", bg: "--surface-inverse", kind: "text" },
+  { fg: "--link", bg: "--surface-primary", kind: "text" },
+  { fg: "--btn-primary-text", bg: "--btn-primary-bg", kind: "text" },
+  { fg: "--btn-secondary-text", bg: "--surface-primary", kind: "text" },
+  { fg: "--input-text", bg: "--input-bg", kind: "text" },
+  { fg: "--input-placeholder", bg: "--input-bg", kind: "text" },
+  { fg: "--card-text", bg: "--card-bg", kind: "text" },
+  { fg: "--badge-text", bg: "--badge-bg", kind: "text" },
+  { fg: "--alert-text", bg: "--alert-bg", kind: "text" },
+  { fg: "--tooltip-text", bg: "--tooltip-bg", kind: "text" },
+  { fg: "--border-strong", bg: "--surface-primary", kind: "ui" },
+  { fg: "--input-border", bg: "--input-bg", kind: "ui" },
+  { fg: "--input-border-focus", bg: "--input-bg", kind: "ui" },
+  { fg: "--accent", bg: "--surface-primary", kind: "ui" }
+];
+
+/**
+Resolves a token value such as `var(--c-deep-blue-500)` to its hex through
+the ramps. Returns null for values that are not primitive references
+(e.g. `transparent`) or point at a missing ramp.
+*/
+export function resolvePrimitive(value: string, ramps: RampMap): string | null {
+  const m = /^var\(--c-(.+)-(\d+)\)$/.exec(value.trim());
+  if (!m) return null;
+  const ramp = ramps[m[1]];
+  if (!ramp) return null;
+  return ramp[Number(m[2]) as RampStep] ?? null;
+}
+
+export function wcagRatio(fgHex: string, bgHex: string) {
+  return wcagContrast(fgHex, bgHex);
+}
+
+/**
+APCA-W3 0.0.98G-4g lightness contrast (Lc). Positive for dark text on
+light backgrounds, negative for light text on dark backgrounds.
+*/
+export function apcaContrast(fgHex: string, bgHex: string) {
+  const yTxt = apcaLuminance(fgHex);
+  const yBg = apcaLuminance(bgHex);
+
+  if (Math.abs(yBg - yTxt) < 0.0005) return 0;
+
+  if (yBg > yTxt) {
+    const sapc = (Math.pow(yBg, 0.56) - Math.pow(yTxt, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (Math.pow(yBg, 0.65) - Math.pow(yTxt, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+function apcaLuminance(hex: string) {
+  const rgb = toRgb(parse(hex));
+  if (!rgb) throw new Error("Invalid hex");
+  const y =
+    0.2126729 * Math.pow(rgb.r, 2.4) +
+    0.7151522 * Math.pow(rgb.g, 2.4) +
+    0.072175 * Math.pow(rgb.b, 2.4);
+  // Soft clamp near black
+  return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y;
+}
+
+export function auditContrast(
+  themes: Record<ThemeName, Record<string, string>>,
+  components: Record<ThemeName, Record<string, string>>,
+  ramps: RampMap,
+  pairs: ContrastPair[] = CONTRAST_PAIRS
+): ContrastAudit {
+  const audit: ContrastAudit = {};
+
+  for (const theme of Object.keys(themes)) {
+    audit[theme] = [];
+    const tokens = { ...themes[theme], ...components[theme] };
+
+    for (const pair of pairs) {
+      const fgHex = tokens[pair.fg] && resolvePrimitive(tokens[pair.fg], ramps);
+      const bgHex = tokens[pair.bg] && resolvePrimitive(tokens[pair.bg], ramps);
+      if (!fgHex || !bgHex) continue;
+
+      const t = CONTRAST_THRESHOLDS[pair.kind];
+      const ratio = round(wcagRatio(fgHex, bgHex), 2);
+      const apca = round(apcaContrast(fgHex, bgHex), 1);
+
+      audit[theme].push({
+        ...pair,
+        fgHex,
+        bgHex,
+        ratio,
+        apca,
+        aa: ratio >= t.aa,
+        aaa: ratio >= t.aaa,
+        apcaPass: Math.abs(apca) >= t.apca
+      });
+    }
+  }
+
+  return audit;
+}
+
+function round(n: number, digits: number) {
+  const f = Math.pow(10, digits);
+  return Math.round(n * f) / f;
+}
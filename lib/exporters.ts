@@ -0,0 +1,852 @@
+import { converter, parse } from "culori";
+import type { ThemeName, TokenBundle } from "./tokens";
+
+export type ExportFile = {
+  filename: string;
+  content: string;
+};
+
+/**
+Turns a built TokenBundle into one or more files. Exporters only read the
+bundle, so a new format never has to touch buildTokens.
+*/
+export type Exporter = {
+  id: string;
+  label: string;
+  build: (bundle: TokenBundle) => ExportFile[];
+  /** Zip name when the files form a folder that is downloaded as one. */
+  archive?: string;
+};
+
+const toRgb = converter("rgb");
+const toOklch = converter("oklch");
+
+/** "--c-deep-blue-500" -> "c-deep-blue-500". */
+function bare(token: string) {
+  return token.replace(/^--/, "");
+}
+
+/** "var(--c-deep-blue-500)" -> "c-deep-blue-500"; null for literals. */
+function varRef(value: string) {
+  const m = /^var\(--(.+)\)$/.exec(value);
+  return m ? m[1] : null;
+}
+
+/** Primitives grouped by color id, steps in emission order. */
+function primitiveGroups(bundle: TokenBundle) {
+  const groups: Record<string, Record<string, string>> = {};
+  for (const [token, value] of Object.entries(bundle.json.primitives)) {
+    const m = /^--c-(.+)-(\d+)$/.exec(token);
+    if (!m) continue;
+    (groups[m[1]] ??= {})[m[2]] = value;
+  }
+  return groups;
+}
+
+/** Semantic then component tokens defined by any theme, first-seen order. */
+function themeTokens(bundle: TokenBundle) {
+  const names = new Set<string>();
+  for (const source of [bundle.json.themes, bundle.json.components]) {
+    for (const tokens of Object.values(source))
+      for (const name of Object.keys(tokens)) names.add(name);
+  }
+  return [...names];
+}
+
+/** Semantic and component values of one theme, merged. */
+function themeValues(bundle: TokenBundle, theme: ThemeName) {
+  return {
+    ...bundle.json.themes[theme],
+    ...bundle.json.components[theme]
+  };
+}
+
+/**
+Design-token tree shared by the DTCG and Style Dictionary formats: primitives
+under color.<id>.<step>, then each theme's tokens as aliases of those.
+*/
+function tokenTree(
+  bundle: TokenBundle,
+  leaf: (value: string) => Record<string, string>
+) {
+  const color: Record<string, Record<string, unknown>> = {};
+  for (const [id, steps] of Object.entries(primitiveGroups(bundle))) {
+    color[id] = {};
+    for (const [step, hex] of Object.entries(steps)) color[id][step] = leaf(hex);
+  }
+
+  const themes: Record<string, Record<string, unknown>> = {};
+  for (const name of Object.keys(bundle.json.themes)) {
+    themes[name] = {};
+    for (const [k, v] of Object.entries(themeValues(bundle, name)))
+      themes[name][bare(k)] = leaf(alias(v));
+  }
+
+  return { color, themes };
+}
+
+/** "var(--c-deep-blue-500)" -> "{color.deep-blue.500}"; other values as-is. */
+function alias(value: string) {
+  const m = /^var\(--c-(.+)-(\d+)\)$/.exec(value);
+  if (m) return `{color.${m[1]}.${m[2]}}`;
+  // Color tokens need a color value; "transparent" has no hex of its own
+  return value === "transparent" ? "#00000000" : value;
+}
+
+function quote(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** Object literal source, one key per line. */
+function objectLiteral(value: unknown, indent = ""): string {
+  if (typeof value !== "object" || value === null) return JSON.stringify(value);
+  const inner = indent + "  ";
+  const entries = Object.entries(value).map(
+    ([k, v]) => `${inner}${quote(k)}: ${objectLiteral(v, inner)}`
+  );
+  return entries.length ? `{\n${entries.join(",\n")}\n${indent}}` : "{}";
+}
+
+/** Type literal for objectLiteral's output, with readonly literal members. */
+function typeLiteral(value: unknown, indent = ""): string {
+  if (typeof value !== "object" || value === null) return JSON.stringify(value);
+  const inner = indent + "  ";
+  const entries = Object.entries(value).map(
+    ([k, v]) => `${inner}readonly ${quote(k)}: ${typeLiteral(v, inner)};`
+  );
+  return entries.length ? `{\n${entries.join("\n")}\n${indent}}` : "{}";
+}
+
+function union(values: string[]) {
+  if (!values.length) return "never";
+  return values.map((v) => `\n  | ${JSON.stringify(v)}`).join("");
+}
+
+/*
+Native platforms have no CSS variables, so theme tokens are resolved here:
+each one becomes either a primitive reference or a literal ARGB color.
+*/
+
+type NativeColor = {
+  /** [color id, step] when the token points straight at a primitive. */
+  ref: [string, string] | null;
+  /** AARRGGBB, uppercase. */
+  argb: string;
+};
+
+/** AARRGGBB of any CSS color; null when it cannot be parsed. */
+function argb(value: string) {
+  const rgb: any = toRgb(parse(value));
+  if (!rgb) return null;
+  const byte = (n: number | undefined) =>
+    Math.round(Math.min(1, Math.max(0, n ?? 1)) * 255)
+      .toString(16)
+      .padStart(2, "0");
+  return [rgb.alpha, rgb.r, rgb.g, rgb.b].map(byte).join("").toUpperCase();
+}
+
+/** A theme token followed through var() references, or null if unresolvable. */
+function nativeColor(
+  bundle: TokenBundle,
+  theme: ThemeName,
+  token: string
+): NativeColor | null {
+  const values = themeValues(bundle, theme);
+  let value = values[token];
+  for (let depth = 0; value && depth < 8; depth++) {
+    const ref = varRef(value);
+    if (!ref) break;
+    const primitive = /^c-(.+)-(\d+)$/.exec(ref);
+    const hex = bundle.json.primitives[`--${ref}`];
+    if (primitive && hex) {
+      const color = argb(hex);
+      return color ? { ref: [primitive[1], primitive[2]], argb: color } : null;
+    }
+    value = values[`--${ref}`];
+  }
+  const color = value ? argb(value) : null;
+  return color ? { ref: null, argb: color } : null;
+}
+
+function isDarkTheme(bundle: TokenBundle, theme: ThemeName) {
+  if (theme === "dark" || theme === "light") return theme === "dark";
+  const surface = nativeColor(bundle, theme, "--surface-primary");
+  if (!surface) return false;
+  const lch: any = toOklch(parse(`#${surface.argb.slice(2)}`));
+  return (lch?.l ?? 1) < 0.5;
+}
+
+/**
+Android and iOS only switch between a light and a dark appearance: the themes
+named light and dark, else the first theme of each brightness.
+*/
+function appearances(bundle: TokenBundle) {
+  const names = Object.keys(bundle.json.themes);
+  const dark = names.includes("dark")
+    ? "dark"
+    : names.find((t) => isDarkTheme(bundle, t));
+  const light = names.includes("light")
+    ? "light"
+    : names.find((t) => t !== dark) ?? names[0];
+  return { light, dark: dark === light ? undefined : dark };
+}
+
+/** "text-primary" -> "textPrimary"; ("deep-blue", "500") -> "deepBlue500". */
+function camel(...parts: string[]) {
+  const name = parts
+    .join("-")
+    .replace(/-+([a-z0-9])/gi, (_, c: string) => c.toUpperCase());
+  return /^[0-9]/.test(name) ? `c${name}` : name;
+}
+
+/** Same syntax in Dart and Kotlin; unresolvable tokens become transparent. */
+function colorExpr(c: NativeColor | null) {
+  if (c?.ref) return `Primitives.${camel(...c.ref)}`;
+  return `Color(0x${c?.argb ?? "00000000"})`;
+}
+
+function pascal(name: string) {
+  const c = camel(name);
+  return c[0].toUpperCase() + c.slice(1);
+}
+
+/*
+Material color scheme roles and the tokens that fill them, first match wins.
+Roles without a matching token keep the Material default.
+*/
+const SCHEME_ROLES: [string, string[]][] = [
+  ["primary", ["--accent", "--btn-primary-bg"]],
+  ["onPrimary", ["--btn-primary-text", "--text-inverse"]],
+  ["secondary", ["--link", "--accent-inverse"]],
+  ["surface", ["--surface-primary"]],
+  ["onSurface", ["--text-primary"]],
+  ["onSurfaceVariant", ["--text-secondary"]],
+  ["outline", ["--border-default"]],
+  ["outlineVariant", ["--border-subtle"]],
+  ["inverseSurface", ["--surface-inverse"]],
+  ["onInverseSurface", ["--text-inverse"]]
+];
+
+function schemeTokens(bundle: TokenBundle, theme: ThemeName) {
+  const values = themeValues(bundle, theme);
+  return SCHEME_ROLES.flatMap(([role, tokens]) => {
+    const token = tokens.find((t) => values[t] !== undefined);
+    return token ? [[role, token] as const] : [];
+  });
+}
+
+export const cssExporter: Exporter = {
+  id: "css",
+  label: "CSS",
+  build: (bundle) => [{ filename: "tokens.css", content: bundle.css }]
+};
+
+export const jsonExporter: Exporter = {
+  id: "json",
+  label: "JSON",
+  build: (bundle) => [
+    { filename: "tokens.json", content: JSON.stringify(bundle.json, null, 2) }
+  ]
+};
+
+/** W3C Design Tokens Community Group format, themes under "theme". */
+export const dtcgExporter: Exporter = {
+  id: "dtcg",
+  label: "DTCG",
+  build: (bundle) => {
+    const { color, themes } = tokenTree(bundle, (value) => ({
+      $value: value,
+      $type: "color"
+    }));
+    return [
+      {
+        filename: "tokens.dtcg.json",
+        content: JSON.stringify({ color, theme: themes }, null, 2)
+      }
+    ];
+  }
+};
+
+/**
+Style Dictionary sources: a base file with the primitives and one file per
+theme, so each theme is built by pairing base with its own file.
+*/
+export const styleDictionaryExporter: Exporter = {
+  id: "style-dictionary",
+  label: "Style Dictionary",
+  build: (bundle) => {
+    const { color, themes } = tokenTree(bundle, (value) => ({
+      value,
+      type: "color"
+    }));
+    return [
+      {
+        filename: "tokens.base.json",
+        content: JSON.stringify({ color }, null, 2)
+      },
+      ...Object.entries(themes).map(([theme, tokens]) => ({
+        filename: `tokens.${theme}.json`,
+        content: JSON.stringify({ theme: tokens }, null, 2)
+      }))
+    ];
+  }
+};
+
+/** "#1C2E7AFF"-style AARRGGBB -> Figma's 0–1 RGBA object. */
+function figmaRgba(argbHex: string) {
+  const [a, r, g, b] = argbHex
+    .match(/../g)!
+    .map((h) => Math.round((parseInt(h, 16) / 255) * 10000) / 10000);
+  return { r, g, b, a };
+}
+
+/**
+Figma Variables in the shape of the REST API's local variables response: one
+collection per ramp, plus a Semantic collection with a mode per theme whose
+values alias the primitives. codeSyntax carries the CSS names so the file can
+be imported back.
+*/
+export const figmaExporter: Exporter = {
+  id: "figma",
+  label: "Figma",
+  build: (bundle) => {
+    const variableCollections: Record<string, unknown> = {};
+    const variables: Record<string, unknown> = {};
+    const variableId = (token: string) => `VariableID:${bare(token)}`;
+
+    for (const [id, steps] of Object.entries(primitiveGroups(bundle))) {
+      const collectionId = `VariableCollectionId:${id}`;
+      const modeId = `${id}:value`;
+      const ids: string[] = [];
+      for (const [step, hex] of Object.entries(steps)) {
+        const c = argb(hex);
+        if (!c) continue;
+        const token = `--c-${id}-${step}`;
+        ids.push(variableId(token));
+        variables[variableId(token)] = {
+          id: variableId(token),
+          name: step,
+          variableCollectionId: collectionId,
+          resolvedType: "COLOR",
+          valuesByMode: { [modeId]: figmaRgba(c) },
+          scopes: ["ALL_SCOPES"],
+          codeSyntax: { WEB: `var(${token})` }
+        };
+      }
+      variableCollections[collectionId] = {
+        id: collectionId,
+        name: id,
+        modes: [{ modeId, name: "Value" }],
+        defaultModeId: modeId,
+        variableIds: ids
+      };
+    }
+
+    const themes = Object.keys(bundle.json.themes);
+    const collectionId = "VariableCollectionId:semantic";
+    const modes = themes.map((theme) => ({
+      modeId: `semantic:${theme}`,
+      name: theme
+        .split("-")
+        .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+        .join(" ")
+    }));
+    const ids: string[] = [];
+    for (const token of themeTokens(bundle)) {
+      const valuesByMode: Record<string, unknown> = {};
+      themes.forEach((theme, i) => {
+        const c = nativeColor(bundle, theme, token);
+        if (!c) return;
+        valuesByMode[modes[i].modeId] = c.ref
+          ? {
+              type: "VARIABLE_ALIAS",
+              id: variableId(`--c-${c.ref[0]}-${c.ref[1]}`)
+            }
+          : figmaRgba(c.argb);
+      });
+      if (!Object.keys(valuesByMode).length) continue;
+      ids.push(variableId(token));
+      variables[variableId(token)] = {
+        id: variableId(token),
+        name: bare(token),
+        variableCollectionId: collectionId,
+        resolvedType: "COLOR",
+        valuesByMode,
+        scopes: ["ALL_SCOPES"],
+        codeSyntax: { WEB: `var(${token})` }
+      };
+    }
+    variableCollections[collectionId] = {
+      id: collectionId,
+      name: "Semantic",
+      modes,
+      defaultModeId: modes[0]?.modeId,
+      variableIds: ids
+    };
+
+    return [
+      {
+        filename: "tokens.figma.json",
+        content: JSON.stringify(
+          { meta: { variableCollections, variables } },
+          null,
+          2
+        )
+      }
+    ];
+  }
+};
+
+/** theme.extend.colors pointing at the CSS vars, so data-theme still switches. */
+export const tailwindExporter: Exporter = {
+  id: "tailwind",
+  label: "Tailwind",
+  build: (bundle) => {
+    const colors: Record<string, string | Record<string, string>> = {};
+    for (const [id, steps] of Object.entries(primitiveGroups(bundle))) {
+      const group: Record<string, string> = {};
+      for (const step of Object.keys(steps))
+        group[step] = `var(--c-${id}-${step})`;
+      colors[id] = group;
+    }
+    for (const token of themeTokens(bundle)) {
+      const name = bare(token);
+      const existing = colors[name];
+      // A token named like a color id becomes that group's DEFAULT
+      if (typeof existing === "object") existing.DEFAULT = `var(${token})`;
+      else colors[name] = `var(${token})`;
+    }
+
+    const config = { theme: { extend: { colors } } };
+    return [
+      {
+        filename: "tailwind.tokens.js",
+        content: [
+          "/** Generated by Ramp to CSS. Load tokens.css for the values. */",
+          `/** @type {import("tailwindcss").Config} */`,
+          `module.exports = ${objectLiteral(config)};`,
+          ""
+        ].join("\n")
+      }
+    ];
+  }
+};
+
+/** Primitive variables, a map per color, and a resolved map per theme. */
+export const scssExporter: Exporter = {
+  id: "scss",
+  label: "SCSS",
+  build: (bundle) => {
+    const value = (v: string) => {
+      const ref = varRef(v);
+      return ref ? `$${ref}` : v;
+    };
+    const map = (entries: [string, string][]) =>
+      `(\n${entries.map(([k, v]) => `  "${k}": ${v}`).join(",\n")}\n)`;
+
+    const lines = ["// Generated by Ramp to CSS", "", "// Primitive ramps"];
+    const groups = primitiveGroups(bundle);
+    for (const [id, steps] of Object.entries(groups)) {
+      for (const [step, hex] of Object.entries(steps))
+        lines.push(`$c-${id}-${step}: ${hex};`);
+    }
+    lines.push("");
+    for (const [id, steps] of Object.entries(groups)) {
+      lines.push(
+        `$${id}: ${map(Object.keys(steps).map((s) => [s, `$c-${id}-${s}`]))};`
+      );
+    }
+
+    lines.push("", "// Semantic and component tokens per theme");
+    const themes = Object.keys(bundle.json.themes);
+    for (const theme of themes) {
+      const entries = Object.entries(themeValues(bundle, theme));
+      lines.push(
+        `$theme-${theme}: ${map(entries.map(([k, v]) => [bare(k), value(v)]))};`
+      );
+    }
+    lines.push(
+      "",
+      `$themes: ${map(themes.map((t) => [t, `$theme-${t}`]))};`,
+      ""
+    );
+
+    return [{ filename: "_tokens.scss", content: lines.join("\n") }];
+  }
+};
+
+/** Primitive variables and a detached ruleset per theme (Less 3.5+ maps). */
+export const lessExporter: Exporter = {
+  id: "less",
+  label: "Less",
+  build: (bundle) => {
+    const value = (v: string) => {
+      const ref = varRef(v);
+      return ref ? `@${ref}` : v;
+    };
+
+    const lines = ["// Generated by Ramp to CSS", "", "// Primitive ramps"];
+    for (const [id, steps] of Object.entries(primitiveGroups(bundle))) {
+      for (const [step, hex] of Object.entries(steps))
+        lines.push(`@c-${id}-${step}: ${hex};`);
+    }
+
+    lines.push("", "// Semantic and component tokens per theme");
+    for (const theme of Object.keys(bundle.json.themes)) {
+      lines.push(`@theme-${theme}: {`);
+      for (const [k, v] of Object.entries(themeValues(bundle, theme)))
+        lines.push(`  ${bare(k)}: ${value(v)};`);
+      lines.push("}");
+    }
+    lines.push("");
+
+    return [{ filename: "tokens.less", content: lines.join("\n") }];
+  }
+};
+
+/** ES module with the resolved values plus a .d.ts with literal types. */
+export const moduleExporter: Exporter = {
+  id: "module",
+  label: "JS / TS",
+  build: (bundle) => {
+    const { primitives, themes, components } = bundle.json;
+    const vars: Record<string, string> = {};
+    for (const token of themeTokens(bundle)) vars[bare(token)] = `var(${token})`;
+    const exports = { primitives, themes, components, vars };
+
+    const js = ["// Generated by Ramp to CSS", ""];
+    const dts = ["// Generated by Ramp to CSS", ""];
+    for (const [name, value] of Object.entries(exports)) {
+      js.push(`export const ${name} = ${objectLiteral(value)};`, "");
+      dts.push(`export declare const ${name}: ${typeLiteral(value)};`, "");
+    }
+    dts.push(
+      `export type ThemeName = ${union(Object.keys(themes))};`,
+      `export type PrimitiveToken = ${union(Object.keys(primitives))};`,
+      `export type ThemeToken = ${union(themeTokens(bundle))};`,
+      ""
+    );
+
+    return [
+      { filename: "tokens.js", content: js.join("\n") },
+      { filename: "tokens.d.ts", content: dts.join("\n") }
+    ];
+  }
+};
+
+/**
+Resource qualifiers pick the theme: values/ holds the primitives and the light
+theme, values-night/ only the dark theme's tokens. Names are the CSS names
+with underscores, since resource names cannot contain hyphens.
+*/
+export const androidExporter: Exporter = {
+  id: "android",
+  label: "Android",
+  build: (bundle) => {
+    const name = (token: string) => bare(token).replace(/-/g, "_");
+    const color = (argbHex: string) =>
+      argbHex.startsWith("FF") ? `#${argbHex.slice(2)}` : `#${argbHex}`;
+    const file = (lines: string[]) =>
+      [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        "<!-- Generated by Ramp to CSS -->",
+        "<resources>",
+        ...lines.map((l) => (l ? `    ${l}` : l)),
+        "</resources>",
+        ""
+      ].join("\n");
+    const themeLines = (theme: ThemeName) =>
+      themeTokens(bundle).flatMap((token) => {
+        const c = nativeColor(bundle, theme, token);
+        if (!c) return [];
+        const value = c.ref
+          ? `@color/${name(`c-${c.ref[0]}-${c.ref[1]}`)}`
+          : color(c.argb);
+        return [`<color name="${name(token)}">${value}</color>`];
+      });
+
+    const { light, dark } = appearances(bundle);
+    const base = ["<!-- Primitive ramps -->"];
+    for (const [token, hex] of Object.entries(bundle.json.primitives)) {
+      const c = argb(hex);
+      if (c) base.push(`<color name="${name(token)}">${color(c)}</color>`);
+    }
+    base.push("", `<!-- ${light} theme -->`, ...themeLines(light));
+
+    const files = [{ filename: "values/colors.xml", content: file(base) }];
+    if (dark) {
+      files.push({
+        filename: "values-night/colors.xml",
+        content: file([`<!-- ${dark} theme -->`, ...themeLines(dark)])
+      });
+    }
+    return files;
+  }
+};
+
+/**
+An Xcode asset catalog: one colorset per token, named exactly like the CSS
+variable, with the dark theme as the dark appearance. Primitives sit in a
+folder that does not add a namespace, so Color("c-deep-blue-500") works.
+*/
+export const iosExporter: Exporter = {
+  id: "ios",
+  label: "iOS",
+  archive: "Tokens.xcassets.zip",
+  build: (bundle) => {
+    const root = "Tokens.xcassets";
+    const info = { author: "xcode", version: 1 };
+    const json = (value: unknown) => JSON.stringify(value, null, 2) + "\n";
+    const components = (argbHex: string) => {
+      const [a, r, g, b] = argbHex.match(/../g)!;
+      return {
+        "color-space": "srgb",
+        components: {
+          alpha: (parseInt(a, 16) / 255).toFixed(3),
+          blue: `0x${b}`,
+          green: `0x${g}`,
+          red: `0x${r}`
+        }
+      };
+    };
+    const colorset = (path: string, lightArgb: string, darkArgb?: string) => ({
+      filename: `${path}.colorset/Contents.json`,
+      content: json({
+        colors: [
+          { color: components(lightArgb), idiom: "universal" },
+          ...(darkArgb
+            ? [
+                {
+                  appearances: [{ appearance: "luminosity", value: "dark" }],
+                  color: components(darkArgb),
+                  idiom: "universal"
+                }
+              ]
+            : [])
+        ],
+        info
+      })
+    });
+
+    const files: ExportFile[] = [
+      { filename: `${root}/Contents.json`, content: json({ info }) },
+      {
+        filename: `${root}/Primitives/Contents.json`,
+        content: json({ info, properties: { "provides-namespace": false } })
+      }
+    ];
+    for (const [token, hex] of Object.entries(bundle.json.primitives)) {
+      const c = argb(hex);
+      if (c) files.push(colorset(`${root}/Primitives/${bare(token)}`, c));
+    }
+
+    const { light, dark } = appearances(bundle);
+    for (const token of themeTokens(bundle)) {
+      const l = nativeColor(bundle, light, token);
+      const d = dark ? nativeColor(bundle, dark, token) : null;
+      if (l) files.push(colorset(`${root}/${bare(token)}`, l.argb, d?.argb));
+    }
+    return files;
+  }
+};
+
+/**
+Dart constants for the primitives, a TokenColors ThemeExtension with one
+field per CSS token (camelCased) and a ThemeData per theme.
+*/
+export const flutterExporter: Exporter = {
+  id: "flutter",
+  label: "Flutter",
+  build: (bundle) => {
+    const themes = Object.keys(bundle.json.themes);
+    const tokens = themeTokens(bundle).filter((t) =>
+      themes.some((theme) => nativeColor(bundle, theme, t))
+    );
+
+    const lines = [
+      "// Generated by Ramp to CSS",
+      "import 'package:flutter/material.dart';",
+      "",
+      "/// Primitive ramps, --c-<id>-<step> in CSS.",
+      "class Primitives {",
+      "  Primitives._();",
+      ""
+    ];
+    for (const [id, steps] of Object.entries(primitiveGroups(bundle))) {
+      for (const [step, hex] of Object.entries(steps)) {
+        const c = argb(hex);
+        if (c) lines.push(`  static const ${camel(id, step)} = Color(0x${c});`);
+      }
+    }
+    lines.push(
+      "}",
+      "",
+      "/// Semantic and component tokens, named after the CSS variables.",
+      "@immutable",
+      "class TokenColors extends ThemeExtension<TokenColors> {",
+      "  const TokenColors({",
+      ...tokens.map((t) => `    required this.${camel(bare(t))},`),
+      "  });",
+      ""
+    );
+    for (const t of tokens)
+      lines.push(`  /// \`${t}\``, `  final Color ${camel(bare(t))};`, "");
+    for (const theme of themes) {
+      lines.push(`  static const ${camel(theme)} = TokenColors(`);
+      for (const t of tokens) {
+        const value = colorExpr(nativeColor(bundle, theme, t));
+        lines.push(`    ${camel(bare(t))}: ${value},`);
+      }
+      lines.push("  );", "");
+    }
+    lines.push(
+      "  @override",
+      "  TokenColors copyWith({",
+      ...tokens.map((t) => `    Color? ${camel(bare(t))},`),
+      "  }) {",
+      "    return TokenColors(",
+      ...tokens.map((t) => {
+        const f = camel(bare(t));
+        return `      ${f}: ${f} ?? this.${f},`;
+      }),
+      "    );",
+      "  }",
+      "",
+      "  @override",
+      "  TokenColors lerp(TokenColors? other, double t) {",
+      "    if (other == null) return this;",
+      "    return TokenColors(",
+      ...tokens.map((t) => {
+        const f = camel(bare(t));
+        return `      ${f}: Color.lerp(${f}, other.${f}, t)!,`;
+      }),
+      "    );",
+      "  }",
+      "}",
+      ""
+    );
+
+    for (const theme of themes) {
+      const scheme = isDarkTheme(bundle, theme) ? "dark" : "light";
+      lines.push(
+        `final ThemeData ${camel(theme)}Theme = ThemeData(`,
+        `  colorScheme: const ColorScheme.${scheme}(`,
+        ...schemeTokens(bundle, theme).map(
+          ([role, t]) =>
+            `    ${role}: ${colorExpr(nativeColor(bundle, theme, t))},`
+        ),
+        "  ),",
+        `  extensions: const [TokenColors.${camel(theme)}],`,
+        ");",
+        ""
+      );
+    }
+
+    return [{ filename: "tokens.dart", content: lines.join("\n") }];
+  }
+};
+
+/**
+Jetpack Compose: primitives, a TokenColors class with one property per CSS
+token (camelCased), an instance and a Material 3 ColorScheme per theme, and
+a CompositionLocal defaulting to the light theme.
+*/
+export const composeExporter: Exporter = {
+  id: "compose",
+  label: "Compose",
+  build: (bundle) => {
+    const themes = Object.keys(bundle.json.themes);
+    const tokens = themeTokens(bundle).filter((t) =>
+      themes.some((theme) => nativeColor(bundle, theme, t))
+    );
+
+    const lines = [
+      "// Generated by Ramp to CSS",
+      "",
+      "import androidx.compose.material3.darkColorScheme",
+      "import androidx.compose.material3.lightColorScheme",
+      "import androidx.compose.runtime.Immutable",
+      "import androidx.compose.runtime.staticCompositionLocalOf",
+      "import androidx.compose.ui.graphics.Color",
+      "",
+      "/** Primitive ramps, --c-<id>-<step> in CSS. */",
+      "object Primitives {"
+    ];
+    for (const [id, steps] of Object.entries(primitiveGroups(bundle))) {
+      for (const [step, hex] of Object.entries(steps)) {
+        const c = argb(hex);
+        if (c) lines.push(`    val ${camel(id, step)} = Color(0x${c})`);
+      }
+    }
+    lines.push(
+      "}",
+      "",
+      "/** Semantic and component tokens, named after the CSS variables. */",
+      "@Immutable",
+      "data class TokenColors(",
+      ...tokens.map(
+        (t, i) =>
+          `    /** \`${t}\` */\n    val ${camel(bare(t))}: Color${
+            i < tokens.length - 1 ? "," : ""
+          }`
+      ),
+      ")",
+      ""
+    );
+    for (const theme of themes) {
+      const name = pascal(theme);
+      lines.push(`val ${name}TokenColors = TokenColors(`);
+      lines.push(
+        ...tokens.map(
+          (t, i) =>
+            `    ${camel(bare(t))} = ${colorExpr(nativeColor(bundle, theme, t))}${
+              i < tokens.length - 1 ? "," : ""
+            }`
+        ),
+        ")",
+        ""
+      );
+      const scheme = isDarkTheme(bundle, theme) ? "dark" : "light";
+      const roles = schemeTokens(bundle, theme);
+      lines.push(
+        `val ${name}ColorScheme = ${scheme}ColorScheme(`,
+        ...roles.map(
+          ([role, t], i) =>
+            `    ${role} = ${name}TokenColors.${camel(bare(t))}${
+              i < roles.length - 1 ? "," : ""
+            }`
+        ),
+        ")",
+        ""
+      );
+    }
+    lines.push(
+      `val LocalTokenColors = staticCompositionLocalOf { ${pascal(
+        appearances(bundle).light
+      )}TokenColors }`,
+      ""
+    );
+
+    return [{ filename: "Color.kt", content: lines.join("\n") }];
+  }
+};
+
+export const EXPORTERS: Exporter[] = [
+  cssExporter,
+  jsonExporter,
+  tailwindExporter,
+  scssExporter,
+  lessExporter,
+  moduleExporter,
+  dtcgExporter,
+  styleDictionaryExporter,
+  figmaExporter,
+  androidExporter,
+  iosExporter,
+  flutterExporter,
+  composeExporter
+];
+
+export function getExporter(id: string): Exporter | undefined {
+  return EXPORTERS.find((e) => e.id === id);
+}
@@ -0,0 +1,336 @@
+import { formatHex, formatHex8 } from "culori";
+import {
+  SCALE_PRESETS,
+  generateRamp9,
+  isValidHex,
+  normalizeHex,
+  rampSteps,
+  validateScale,
+  type BaseAnchor,
+  type Ramp,
+  type RampStep,
+  type StepLocks,
+  type StepScale
+} from "./ramp";
+import { DEFAULT_SCHEMA, type SemanticSchema } from "./schema";
+import type { ThemeDefinition } from "./themes";
+import {
+  slugifyId,
+  type PaletteColor,
+  type RampMap,
+  type ThemeMapping,
+  type ThemeName
+} from "./tokens";
+
+export type TokenImport = {
+  palette: PaletteColor[];
+  mapping: Record<ThemeName, ThemeMapping>;
+  scale: StepScale;
+  themes: ThemeDefinition[];
+  /** Step each schema role used per theme, as found in the file. */
+  roleSteps: Record<string, Record<ThemeName, RampStep>>;
+  /** Everything that could not be inferred exactly, human-readable. */
+  warnings: string[];
+};
+
+type ParsedTokens = {
+  primitives: Record<string, string>;
+  /** Primitives marked as hand-set. */
+  locked: string[];
+  themes: Record<ThemeName, Record<string, string>>;
+};
+
+/**
+Reads a tokens.css or tokens.json produced by buildTokens, or a Figma
+Variables file (see figmaExporter), back into palette,
+mapping, stop set and themes. Throws when the text is neither; anything that
+only had to be guessed ends up in `warnings`.
+*/
+export function importTokens(
+  text: string,
+  schema: SemanticSchema = DEFAULT_SCHEMA,
+  currentThemes: ThemeDefinition[] = []
+): TokenImport {
+  const parsed = text.trim().startsWith("{")
+    ? parseTokensJson(text)
+    : parseTokensCss(text);
+  const warnings: string[] = [];
+
+  // Primitive ramps, grouped by color id
+  const ramps: RampMap = {};
+  const locks: Record<string, StepLocks> = {};
+  for (const [token, value] of Object.entries(parsed.primitives)) {
+    const m = /^--c-(.+)-(\d+)$/.exec(token);
+    if (!m || !isValidHex(value)) continue;
+    (ramps[m[1]] ??= {})[Number(m[2])] = normalizeHex(value);
+    if (parsed.locked.includes(token))
+      (locks[m[1]] ??= {})[Number(m[2])] = normalizeHex(value);
+  }
+  const ids = Object.keys(ramps);
+  if (!ids.length) throw new Error("No primitive ramps (--c-<id>-<step>) found");
+
+  const steps = rampSteps(ramps[ids[0]]);
+  for (const id of ids.slice(1)) {
+    if (rampSteps(ramps[id]).join() !== steps.join())
+      throw new Error(`${id} has different steps than ${ids[0]}`);
+  }
+
+  // Stop set: the preset under which most ramps regenerate exactly
+  const candidates = SCALE_PRESETS.filter(
+    (p) => p.steps.join() === steps.join()
+  );
+  let scale: StepScale;
+  let bases: Record<string, { hex: string; anchor?: BaseAnchor } | null> = {};
+  if (candidates.length) {
+    let best = -1;
+    scale = candidates[0];
+    for (const candidate of candidates) {
+      const found = Object.fromEntries(
+        ids.map((id) => [id, findBase(ramps[id], candidate, locks[id])])
+      );
+      const matched = Object.values(found).filter(Boolean).length;
+      if (matched > best) {
+        best = matched;
+        scale = candidate;
+        bases = found;
+      }
+    }
+  } else {
+    scale = {
+      id: "custom",
+      label: "Custom",
+      steps,
+      positions: steps.map((_, i) => i / (steps.length - 1))
+    };
+    bases = Object.fromEntries(
+      ids.map((id) => [id, findBase(ramps[id], scale, locks[id])])
+    );
+    warnings.push(
+      `Steps ${steps.join(", ")} match no preset; positions were assumed to be even`
+    );
+  }
+
+  const middle = steps[Math.floor(steps.length / 2)];
+  const palette: PaletteColor[] = ids.map((id) => {
+    const base = bases[id];
+    if (!base) {
+      warnings.push(
+        scale.positions.includes(0.5)
+          ? `${id} does not match a generated ramp (custom interpolation, alignment or hand edits); its base was taken from step ${middle}`
+          : `${id}: the scale has no step at 50%, so a middle-anchored base is not in the file; step ${middle} was used`
+      );
+    }
+    return {
+      id,
+      label: labelFromId(id),
+      hex: base?.hex ?? ramps[id][middle],
+      ...(base?.anchor !== undefined ? { anchor: base.anchor } : {}),
+      ...(locks[id] ? { locks: locks[id] } : {})
+    };
+  });
+
+  // Mapping: each schema slot takes the color its roles point at
+  const mapping: Record<ThemeName, ThemeMapping> = {};
+  const roleSteps: Record<string, Record<ThemeName, RampStep>> = {};
+  const themeNames = Object.keys(parsed.themes);
+  if (!themeNames.length) warnings.push("No themes found; mapping is empty");
+  for (const theme of themeNames) {
+    const m: ThemeMapping = (mapping[theme] = {});
+    for (const role of schema.roles) {
+      if (role.alias || !role.slot) continue;
+      const ref = /^var\(--c-(.+)-(\d+)\)$/.exec(
+        parsed.themes[theme][role.token] ?? ""
+      );
+      if (!ref) continue;
+      (roleSteps[role.token] ??= {})[theme] = Number(ref[2]);
+      if (m[role.slot] && m[role.slot] !== ref[1]) {
+        warnings.push(
+          `${theme}: ${role.token} uses ${ref[1]} but its slot is already mapped to ${m[role.slot]}`
+        );
+        continue;
+      }
+      m[role.slot] = ref[1];
+    }
+    for (const slot of schema.slots) {
+      if (!m[slot.key])
+        warnings.push(`${theme}: no token reveals the color for "${slot.label}"`);
+    }
+  }
+
+  // Mappings are flattened on export, so only keep parents that came along
+  const themes: ThemeDefinition[] = themeNames.map((name) => {
+    const known = currentThemes.find((t) => t.name === name);
+    return known?.extends && themeNames.includes(known.extends)
+      ? { name, extends: known.extends }
+      : { name };
+  });
+
+  return { palette, mapping, scale, themes, roleSteps, warnings };
+}
+
+/**
+The step whose hex, used as base at that step, regenerates the ramp. Locked
+steps are left out of the comparison.
+*/
+function findBase(
+  ramp: Ramp,
+  scale: StepScale,
+  locks: StepLocks = {}
+): { hex: string; anchor?: BaseAnchor } | null {
+  // Assumed scales (e.g. a single step) may not be usable for generating;
+  // hex values and steps are already checked, so nothing else can fail
+  if (validateScale(scale).length) return null;
+
+  const mid = scale.positions.indexOf(0.5);
+  // Middle first: that is the default anchor and needs no override
+  const order = mid === -1 ? scale.steps : [scale.steps[mid], ...scale.steps];
+  for (const step of order) {
+    if (locks[step] !== undefined) continue;
+    const hex = ramp[step];
+    const regenerated = generateRamp9(hex, scale, step);
+    const same = (s: RampStep) =>
+      locks[s] !== undefined || regenerated[s] === ramp[s];
+    if (scale.steps.every(same)) {
+      return step === scale.steps[mid] ? { hex } : { hex, anchor: step };
+    }
+  }
+  return null;
+}
+
+function labelFromId(id: string) {
+  return id
+    .split("-")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+function parseTokensJson(text: string): ParsedTokens {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("Not valid JSON");
+  }
+  const figma = json?.meta?.variables ? json.meta : json;
+  if (figma?.variables && figma?.variableCollections)
+    return parseFigmaVariables(figma);
+  if (!json || typeof json.primitives !== "object")
+    throw new Error(
+      "JSON has no primitives; expected a tokens.json or Figma Variables export"
+    );
+  return {
+    primitives: json.primitives,
+    locked: Array.isArray(json.locked) ? json.locked : [],
+    themes: json.themes ?? {}
+  };
+}
+
+function parseTokensCss(text: string): ParsedTokens {
+  const primitives: Record<string, string> = {};
+  const locked: string[] = [];
+  const themes: Record<ThemeName, Record<string, string>> = {};
+  const declarations = (body: string) =>
+    Array.from(body.matchAll(/(--[\w-]+)\s*:\s*([^;]+);/g), (m) => [
+      m[1],
+      m[2].trim()
+    ]);
+
+  // Wide-gamut overrides are not hex and get skipped by the caller
+  for (const [name, value] of declarations(text)) {
+    if (name.startsWith("--c-")) primitives[name] ??= value;
+  }
+  for (const m of text.matchAll(/(--c-[\w-]+)\s*:[^;]+;\s*\/\* locked \*\//g)) {
+    locked.push(m[1]);
+  }
+  for (const m of text.matchAll(/\[data-theme="([^"]+)"\]\s*\{([^}]*)\}/g)) {
+    themes[m[1]] = Object.fromEntries(declarations(m[2]));
+  }
+  return { primitives, locked, themes };
+}
+
+type FigmaColor = { r: number; g: number; b: number; a?: number };
+type FigmaAlias = { type: "VARIABLE_ALIAS"; id: string };
+type FigmaVariable = {
+  id: string;
+  name: string;
+  variableCollectionId: string;
+  resolvedType: string;
+  valuesByMode: Record<string, FigmaColor | FigmaAlias>;
+  codeSyntax?: { WEB?: string };
+};
+type FigmaCollection = {
+  id: string;
+  name: string;
+  modes: { modeId: string; name: string }[];
+  defaultModeId: string;
+};
+
+/**
+Variables with a single mode and a numeric last name segment are primitives:
+"500" in collection "Blue", or "blue/500" in any collection. Variables in
+collections with several modes become theme tokens, one theme per mode. The
+CSS name comes from codeSyntax.WEB when present, else from the name.
+*/
+function parseFigmaVariables(figma: {
+  variableCollections: Record<string, FigmaCollection>;
+  variables: Record<string, FigmaVariable>;
+}): ParsedTokens {
+  const collections = figma.variableCollections;
+  const variables = Object.values(figma.variables).filter(
+    (v) => v.resolvedType === "COLOR" && collections[v.variableCollectionId]
+  );
+  const webName = (v: FigmaVariable) =>
+    /^var\((--[\w-]+)\)$/.exec(v.codeSyntax?.WEB ?? "")?.[1];
+
+  const tokenOf = new Map<string, string>();
+  const primitives: Record<string, string> = {};
+  const themed: FigmaVariable[] = [];
+  for (const v of variables) {
+    const collection = collections[v.variableCollectionId];
+    const path = v.name.split("/");
+    const step = path.pop()!;
+    const value = v.valuesByMode[collection.defaultModeId];
+    const single = collection.modes.length === 1;
+    if (single && /^\d+$/.test(step) && value && !("type" in value)) {
+      const id = slugifyId(path.join("-") || collection.name);
+      const token = webName(v) ?? `--c-${id}-${step}`;
+      tokenOf.set(v.id, token);
+      primitives[token] = figmaHex(value);
+    } else {
+      tokenOf.set(v.id, webName(v) ?? `--${slugifyId(v.name)}`);
+      themed.push(v);
+    }
+  }
+
+  const themes: Record<ThemeName, Record<string, string>> = {};
+  for (const v of themed) {
+    const collection = collections[v.variableCollectionId];
+    for (const mode of collection.modes) {
+      const value = v.valuesByMode[mode.modeId];
+      if (!value) continue;
+      const target = "type" in value ? tokenOf.get(value.id) : undefined;
+      (themes[slugifyId(mode.name)] ??= {})[tokenOf.get(v.id)!] =
+        "type" in value ? (target ? `var(${target})` : "") : figmaHex(value);
+    }
+  }
+
+  // Aliases of other theme tokens resolve within the same theme
+  for (const tokens of Object.values(themes)) {
+    for (const [token, value] of Object.entries(tokens)) {
+      let resolved = value;
+      for (let depth = 0; depth < 8; depth++) {
+        const ref = /^var\((--[\w-]+)\)$/.exec(resolved)?.[1];
+        if (!ref || primitives[ref] || tokens[ref] === undefined) break;
+        resolved = tokens[ref];
+      }
+      tokens[token] = resolved;
+    }
+  }
+
+  return { primitives, locked: [], themes };
+}
+
+function figmaHex({ r, g, b, a = 1 }: FigmaColor) {
+  const color = { mode: "rgb" as const, r, g, b, alpha: a };
+  return a < 1 ? formatHex8(color) : formatHex(color);
+}
@@ -0,0 +1,131 @@
+import {
+  converter,
+  differenceCiede2000,
+  differenceEuclidean,
+  parse
+} from "culori";
+import { rampSteps, type Ramp, type RampGamut, type RampStep } from "./ramp";
+
+const toOklch = converter("oklch");
+const deltaE2000 = differenceCiede2000();
+const deltaEOk = differenceEuclidean("oklab");
+
+export type StepMetrics = {
+  step: RampStep;
+  /** OKLCH lightness and chroma. */
+  l: number;
+  c: number;
+  /** Distance to the previous (lighter) step; null for the first step. */
+  deltaE2000: number | null;
+  deltaEOk: number | null;
+  /** OKLab distance the sRGB clamp moved the step; 0 = not clipped. */
+  clip: number;
+};
+
+export type RampWarningKind =
+  | "too-close"
+  | "lightness-order"
+  | "chroma-order"
+  | "clipped";
+
+export type RampWarning = {
+  kind: RampWarningKind;
+  step: RampStep;
+  message: string;
+};
+
+export type RampMetrics = {
+  steps: StepMetrics[];
+  warnings: RampWarning[];
+};
+
+export type MetricThresholds = {
+  /** Adjacent steps closer than this (CIEDE2000) are flagged. */
+  minDeltaE: number;
+  /** Reversals smaller than this are treated as rounding noise. */
+  lightnessTolerance: number;
+  chromaTolerance: number;
+  /** Clipping below this OKLab distance is not worth reporting. */
+  minClip: number;
+};
+
+export const DEFAULT_METRIC_THRESHOLDS: MetricThresholds = {
+  minDeltaE: 3,
+  lightnessTolerance: 0.002,
+  chromaTolerance: 0.005,
+  minClip: 0.02
+};
+
+const round = (n: number, digits: number) => +n.toFixed(digits);
+
+/**
+Measures a ramp in scale order (light to dark). Lightness should fall at every
+step; chroma should rise to a single peak and fall after it, so a second rise
+past the peak is reported. Pass the row's rampGamut to include clipping.
+*/
+export function rampMetrics(
+  ramp: Ramp,
+  gamut: RampGamut = {},
+  thresholds: MetricThresholds = DEFAULT_METRIC_THRESHOLDS
+): RampMetrics {
+  const stepIds = rampSteps(ramp);
+  const colors = stepIds.map((s) => parse(ramp[s]));
+  const steps: StepMetrics[] = stepIds.map((step, i) => {
+    const lch: any = toOklch(colors[i]);
+    const prev = i > 0 ? colors[i - 1] : null;
+    return {
+      step,
+      l: round(lch?.l ?? 0, 4),
+      c: round(lch?.c ?? 0, 4),
+      deltaE2000: prev ? round(deltaE2000(prev, colors[i]!), 2) : null,
+      deltaEOk: prev ? round(deltaEOk(prev, colors[i]!), 4) : null,
+      clip: gamut[step]?.clip ?? 0
+    };
+  });
+
+  const warnings: RampWarning[] = [];
+  const peak = steps.reduce((best, s, i) => (s.c > steps[best].c ? i : best), 0);
+
+  for (let i = 0; i < steps.length; i++) {
+    const s = steps[i];
+    const prev = steps[i - 1];
+    const label = prev ? `${prev.step}→${s.step}` : `${s.step}`;
+
+    if (prev && s.deltaE2000! < thresholds.minDeltaE) {
+      warnings.push({
+        kind: "too-close",
+        step: s.step,
+        message: `${label}: ΔE ${s.deltaE2000} is hard to tell apart`
+      });
+    }
+    if (prev && s.l > prev.l + thresholds.lightnessTolerance) {
+      warnings.push({
+        kind: "lightness-order",
+        step: s.step,
+        message: `${label}: lightness rises (${prev.l} → ${s.l})`
+      });
+    }
+    // Before the peak chroma should not fall; after it, it should not rise
+    const dc = s.c - (prev?.c ?? s.c);
+    if (
+      prev &&
+      ((i <= peak && dc < -thresholds.chromaTolerance) ||
+        (i > peak && dc > thresholds.chromaTolerance))
+    ) {
+      warnings.push({
+        kind: "chroma-order",
+        step: s.step,
+        message: `${label}: chroma ${dc > 0 ? "rises" : "falls"} (${prev.c} → ${s.c})`
+      });
+    }
+    if (s.clip >= thresholds.minClip) {
+      warnings.push({
+        kind: "clipped",
+        step: s.step,
+        message: `${s.step}: clipped to sRGB (OKLab ${s.clip})`
+      });
+    }
+  }
+
+  return { steps, warnings };
+}
@@ -0,0 +1,263 @@
+import type { RampcssConfig } from "./config";
+
+/*
+Projects live in IndexedDB: one record per project holding its current
+config, and snapshots in their own store so saving a project never rewrites
+its history.
+*/
+
+export type Project = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  config: RampcssConfig;
+};
+
+export type ProjectSnapshot = {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: number;
+  config: RampcssConfig;
+};
+
+/** The single-palette localStorage key used before projects existed. */
+export const LEGACY_STORAGE_KEY = "rampcss.palette.v1";
+
+const DB_NAME = "rampcss";
+const DB_VERSION = 1;
+const PROJECTS = "projects";
+const SNAPSHOTS = "snapshots";
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  db ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(PROJECTS, { keyPath: "id" });
+      req.result
+        .createObjectStore(SNAPSHOTS, { keyPath: "id" })
+        .createIndex("projectId", "projectId");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return db;
+}
+
+function result<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function store(name: string, mode: IDBTransactionMode = "readonly") {
+  return (await openDb()).transaction(name, mode).objectStore(name);
+}
+
+function newId() {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/** Oldest first, so the list keeps its order as projects are edited. */
+export async function listProjects(): Promise<Project[]> {
+  const all: Project[] = await result((await store(PROJECTS)).getAll());
+  return all.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function getProject(id: string): Promise<Project | undefined> {
+  return result((await store(PROJECTS)).get(id));
+}
+
+export async function createProject(
+  name: string,
+  config: RampcssConfig
+): Promise<Project> {
+  const now = Date.now();
+  const project = { id: newId(), name, createdAt: now, updatedAt: now, config };
+  await result((await store(PROJECTS, "readwrite")).add(project));
+  return project;
+}
+
+export async function saveProjectConfig(id: string, config: RampcssConfig) {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found");
+  const next = { ...project, config, updatedAt: Date.now() };
+  await result((await store(PROJECTS, "readwrite")).put(next));
+  return next;
+}
+
+export async function renameProject(id: string, name: string) {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found");
+  await result((await store(PROJECTS, "readwrite")).put({ ...project, name }));
+}
+
+/** Copies the current config; snapshots stay with the original. */
+export async function duplicateProject(id: string) {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found");
+  return createProject(`${project.name} copy`, project.config);
+}
+
+/** Deletes the project together with its snapshots. */
+export async function deleteProject(id: string) {
+  const tx = (await openDb()).transaction([PROJECTS, SNAPSHOTS], "readwrite");
+  tx.objectStore(PROJECTS).delete(id);
+  const snapshots = tx.objectStore(SNAPSHOTS);
+  const keys = await result(snapshots.index("projectId").getAllKeys(id));
+  for (const key of keys) snapshots.delete(key);
+  await done(tx);
+}
+
+/** Newest first. */
+export async function listSnapshots(
+  projectId: string
+): Promise<ProjectSnapshot[]> {
+  const index = (await store(SNAPSHOTS)).index("projectId");
+  const all: ProjectSnapshot[] = await result(index.getAll(projectId));
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function createSnapshot(
+  projectId: string,
+  name: string,
+  config: RampcssConfig
+): Promise<ProjectSnapshot> {
+  const snapshot = {
+    id: newId(),
+    projectId,
+    name,
+    createdAt: Date.now(),
+    config
+  };
+  await result((await store(SNAPSHOTS, "readwrite")).add(snapshot));
+  return snapshot;
+}
+
+export async function deleteSnapshot(id: string) {
+  await result((await store(SNAPSHOTS, "readwrite")).delete(id));
+}
+
+/**
+Moves the pre-project localStorage palette into a first project. Only runs
+while there are no projects; the old key is removed once it is stored.
+*/
+export async function migrateLegacyStorage(): Promise<Project | null> {
+  if ((await listProjects()).length) return null;
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return null;
+
+  let config: RampcssConfig;
+  try {
+    config = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(config?.palette) || !config.mapping) return null;
+
+  const project = await createProject("My palette", config);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return project;
+}
+
+let starting: Promise<Project[]> | null = null;
+
+/**
+Migrates legacy data and makes sure at least one project exists, created from
+`fallback` if needed. Calls made while one is running share its result.
+*/
+export function startProjects(fallback: RampcssConfig): Promise<Project[]> {
+  starting ??= (async () => {
+    try {
+      await migrateLegacyStorage();
+      const list = await listProjects();
+      return list.length ? list : [await createProject("My palette", fallback)];
+    } finally {
+      starting = null;
+    }
+  })();
+  return starting;
+}
+
+/** Human-readable changes going from `from` to `to`; empty when equal. */
+export function diffConfigs(
+  from: RampcssConfig,
+  to: RampcssConfig
+): string[] {
+  const changes: string[] = [];
+  const same = (a: unknown, b: unknown) =>
+    JSON.stringify(a) === JSON.stringify(b);
+
+  const scaleOf = (c: RampcssConfig) =>
+    c.scale ? [c.scale.steps, c.scale.positions] : c.stopSet ?? "figma";
+  if (!same(scaleOf(from), scaleOf(to))) {
+    const label = (c: RampcssConfig) => c.scale?.label ?? c.stopSet ?? "figma";
+    changes.push(`Stop set: ${label(from)} → ${label(to)}`);
+  }
+
+  const before = new Map(from.palette.map((c) => [c.id, c]));
+  const after = new Map(to.palette.map((c) => [c.id, c]));
+  for (const [id, c] of before) {
+    const next = after.get(id);
+    if (!next) {
+      changes.push(`Removed ${id} (${c.hex})`);
+      continue;
+    }
+    if (c.hex !== next.hex) changes.push(`${id}: ${c.hex} → ${next.hex}`);
+    if (c.label !== next.label)
+      changes.push(`${id}: label "${c.label}" → "${next.label}"`);
+    if (!same(c.anchor, next.anchor)) changes.push(`${id}: base step changed`);
+    if (!same(c.locks, next.locks) || !!c.reflow !== !!next.reflow)
+      changes.push(`${id}: step overrides changed`);
+    if (!same(c.interpolation, next.interpolation))
+      changes.push(`${id}: interpolation changed`);
+  }
+  for (const [id, c] of after) {
+    if (!before.has(id)) changes.push(`Added ${id} (${c.hex})`);
+  }
+
+  const themes = new Set([
+    ...Object.keys(from.mapping),
+    ...Object.keys(to.mapping)
+  ]);
+  for (const theme of themes) {
+    const a = from.mapping[theme] ?? {};
+    const b = to.mapping[theme] ?? {};
+    for (const slot of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      if (a[slot] !== b[slot])
+        changes.push(
+          `${theme} · ${slot}: ${a[slot] ?? "unset"} → ${b[slot] ?? "unset"}`
+        );
+    }
+  }
+
+  const sections: [keyof RampcssConfig, string][] = [
+    ["rampSettings", "Ramp interpolation"],
+    ["alignment", "Lightness alignment"],
+    ["wideGamut", "Wide-gamut output"],
+    ["solveContrast", "Contrast solving"],
+    ["themes", "Themes"],
+    ["schema", "Semantic schema"],
+    ["registry", "Component tokens"]
+  ];
+  for (const [key, label] of sections) {
+    if (!same(from[key] ?? null, to[key] ?? null))
+      changes.push(`${label} changed`);
+  }
+
+  return changes;
+}
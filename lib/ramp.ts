@@ -1,8 +1,260 @@
-import { clampGamut, converter, formatHex, parse } from "culori";
+import {
+  clampGamut,
+  converter,
+  differenceEuclidean,
+  formatHex,
+  inGamut,
+  parse
+} from "culori";
 
-export type RampStep = 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900;
+/** Step name as used in CSS variables, e.g. 500 in --c-blue-500. */
+export type RampStep = number;
 export type Ramp = Record<RampStep, string>;
 
+/**
+A step scale: step names plus where each one samples the refined gradient
+(0 = light endpoint, 0.5 = base, 1 = dark endpoint).
+*/
+export type StepScale = {
+  id: string;
+  label: string;
+  steps: RampStep[];
+  positions: number[];
+};
+
+export const SCALE_PRESETS: StepScale[] = [
+  {
+    id: "figma",
+    label: "Figma-like (0,13,25,38,50,63,75,88,100)",
+    steps: [100, 200, 300, 400, 500, 600, 700, 800, 900],
+    positions: [0.0, 0.13, 0.25, 0.38, 0.5, 0.63, 0.75, 0.88, 1.0]
+  },
+  {
+    id: "even",
+    label: "Even (0,12.5,25,37.5,50,62.5,75,87.5,100)",
+    steps: [100, 200, 300, 400, 500, 600, 700, 800, 900],
+    positions: [0.0, 0.125, 0.25, 0.375, 0.5, 0.625, 0.75, 0.875, 1.0]
+  },
+  {
+    id: "tailwind",
+    label: "Tailwind 50–950 (11 steps)",
+    steps: [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950],
+    positions: [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1.0]
+  },
+  {
+    id: "radix",
+    label: "Radix 1–12 (12 steps)",
+    steps: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+    positions: Array.from({ length: 12 }, (_, i) => i / 11)
+  }
+];
+
+export type ColorSpace = "oklch" | "oklab" | "lch" | "hsl" | "lrgb";
+
+export const COLOR_SPACES: { id: ColorSpace; label: string }[] = [
+  { id: "oklch", label: "OKLCH" },
+  { id: "oklab", label: "OKLab" },
+  { id: "lch", label: "CIELCH" },
+  { id: "hsl", label: "HSL" },
+  { id: "lrgb", label: "Linear sRGB" }
+];
+
+export type CurvePreset =
+  | "linear"
+  | "ease"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out";
+
+/** An easing preset or cubic-bezier(x1, y1, x2, y2) control points. */
+export type RampCurve = CurvePreset | [number, number, number, number];
+
+export const CURVE_PRESETS: Record<
+  CurvePreset,
+  [number, number, number, number]
+> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  "ease-in": [0.42, 0, 1, 1],
+  "ease-out": [0, 0, 0.58, 1],
+  "ease-in-out": [0.42, 0, 0.58, 1]
+};
+
+/**
+How a ramp is interpolated. Curves describe progress from a ramp end toward
+the base and are mirrored on the dark half, so "ease-in" on chroma keeps both
+ends muted and concentrates saturation around the base.
+*/
+export type RampSettings = {
+  space: ColorSpace;
+  lightness: RampCurve;
+  chroma: RampCurve;
+};
+
+export const DEFAULT_RAMP_SETTINGS: RampSettings = {
+  space: "oklch",
+  lightness: "linear",
+  chroma: "linear"
+};
+
+type ChannelKind = "l" | "c" | "h";
+
+/** Which channels the lightness curve, chroma curve and hue math apply to. */
+const SPACE_CHANNELS: Record<ColorSpace, [string, ChannelKind][]> = {
+  oklch: [
+    ["l", "l"],
+    ["c", "c"],
+    ["h", "h"]
+  ],
+  lch: [
+    ["l", "l"],
+    ["c", "c"],
+    ["h", "h"]
+  ],
+  oklab: [
+    ["l", "l"],
+    ["a", "c"],
+    ["b", "c"]
+  ],
+  hsl: [
+    ["l", "l"],
+    ["s", "c"],
+    ["h", "h"]
+  ],
+  // No separate chroma axis: every channel follows the lightness curve
+  lrgb: [
+    ["r", "l"],
+    ["g", "l"],
+    ["b", "l"]
+  ]
+};
+
+export function curveControlPoints(curve: RampCurve) {
+  return typeof curve === "string" ? CURVE_PRESETS[curve] : curve;
+}
+
+/** Evaluates a curve at u in [0, 1]. */
+export function easeCurve(curve: RampCurve, u: number): number {
+  if (curve === "linear" || u <= 0 || u >= 1) return u;
+  const [x1, y1, x2, y2] = curveControlPoints(curve);
+  const at = (p1: number, p2: number, t: number) =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+
+  // Bisection on x(t) = u; x is monotonic for x1, x2 in [0, 1]
+  let lo = 0;
+  let hi = 1;
+  let t = u;
+  for (let i = 0; i < 40; i++) {
+    const x = at(x1, x2, t);
+    if (Math.abs(x - u) < 1e-7) break;
+    if (x < u) lo = t;
+    else hi = t;
+    t = (lo + hi) / 2;
+  }
+  return at(y1, y2, t);
+}
+
+export function validateRampSettings(settings: RampSettings): string[] {
+  const errors: string[] = [];
+  if (!SPACE_CHANNELS[settings.space])
+    errors.push(`Unknown color space "${settings.space}"`);
+  for (const key of ["lightness", "chroma"] as const) {
+    const curve = settings[key];
+    if (typeof curve === "string") {
+      if (!CURVE_PRESETS[curve]) errors.push(`Unknown ${key} curve "${curve}"`);
+    } else if (
+      curve.length !== 4 ||
+      curve.some((n) => !Number.isFinite(n)) ||
+      curve[0] < 0 ||
+      curve[0] > 1 ||
+      curve[2] < 0 ||
+      curve[2] > 1
+    ) {
+      errors.push(`The ${key} cubic-bezier needs x1 and x2 between 0 and 1`);
+    }
+  }
+  return errors;
+}
+
+/**
+Palette-wide lightness alignment: every ramp's step i gets the same OKLCH L,
+running from `light` at 0% to `dark` at 100% along `curve`. Hue and chroma
+still come from each ramp's own gradient.
+*/
+export type LightnessAlignment = {
+  light: number;
+  dark: number;
+  curve: RampCurve;
+};
+
+export const DEFAULT_LIGHTNESS_ALIGNMENT: LightnessAlignment = {
+  light: 0.97,
+  dark: 0.25,
+  curve: "linear"
+};
+
+/** Target OKLCH L for each step of the scale. */
+export function lightnessTargets(
+  stopSet: "figma" | "even" | StepScale,
+  alignment: LightnessAlignment
+): number[] {
+  const { positions } = resolveScale(stopSet);
+  const { light, dark, curve } = alignment;
+  return positions.map((p) => light + (dark - light) * easeCurve(curve, p));
+}
+
+/** OKLCH L of each step, in scale order. */
+export function rampLightness(ramp: Ramp): number[] {
+  return rampSteps(ramp).map((s) => toOklch(parse(ramp[s]))?.l ?? 0);
+}
+
+export function getScale(id: string): StepScale | undefined {
+  return SCALE_PRESETS.find((s) => s.id === id);
+}
+
+/** Returns human-readable problems; an empty list means the scale is usable. */
+export function validateScale(scale: StepScale): string[] {
+  const errors: string[] = [];
+  const { steps, positions } = scale;
+
+  if (steps.length < 2) errors.push("A scale needs at least two steps");
+  if (steps.length !== positions.length)
+    errors.push("Each step needs exactly one position");
+  if (steps.some((s) => !Number.isInteger(s) || s < 0))
+    errors.push("Steps must be whole non-negative numbers");
+  if (new Set(steps).size !== steps.length)
+    errors.push("Steps must be unique");
+  const increasing = positions.every(
+    (p, i) => p >= 0 && p <= 1 && (i === 0 || p > positions[i - 1])
+  );
+  if (!increasing) errors.push("Positions must increase from 0 to 100%");
+
+  return errors;
+}
+
+/**
+Maps a step from one scale onto the step of another scale that samples the
+closest position, so semantic references survive a scale change.
+*/
+export function remapStep(step: RampStep, from: StepScale, to: StepScale) {
+  const i = from.steps.indexOf(step);
+  if (i === -1) return step;
+  const pos = from.positions[i];
+  let best = 0;
+  for (let j = 1; j < to.steps.length; j++) {
+    if (Math.abs(to.positions[j] - pos) < Math.abs(to.positions[best] - pos))
+      best = j;
+  }
+  return to.steps[best];
+}
+
+/** Steps present in a ramp, in ascending order. */
+export function rampSteps(ramp: Ramp): RampStep[] {
+  return Object.keys(ramp)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
 const toOklch = converter("oklch");
 const toRgb = converter("rgb");
 
@@ -16,75 +268,336 @@ Your exact method translated into code:
    0% = sample(25%), 50% = base, 100% = sample(75%)
 5) Add stops: 13,25,38,63,75,88 on refined gradient
 6) Sample at: 0,13,25,38,50,63,75,88,100 to produce 100..900
+
+Other scales only change step 6: each step samples its own position, and the
+step sitting at 50% (if any) is the base itself.
+
+Anchoring the base at another step moves the refined gradient's 50% to that
+step's position p, and shifts the endpoints to sample(0.375 - p/4) and
+sample(0.875 - p/4) (25% / 75% when p = 50%). A light base anchored near the
+top then gets a long, deep dark half instead of a washed-out light one.
 */
 
-function sampleWhiteBaseBlack(baseHex: string, t01: number) {
-  const base = toOklch(parse(baseHex));
+/** Where the base color sits: the 50% position, detected from L, or a step. */
+export type BaseAnchor = "middle" | "auto" | RampStep;
+
+function sampleWhiteBaseBlack(
+  baseHex: string,
+  t01: number,
+  space: ColorSpace = "oklch"
+) {
+  const to = converter(space);
+  const base = to(parse(baseHex));
   if (!base) throw new Error("Invalid base hex");
 
-  const white = toOklch(parse("#ffffff"))!;
-  const black = toOklch(parse("#000000"))!;
+  const white = to(parse("#ffffff"))!;
+  const black = to(parse("#000000"))!;
 
   if (t01 <= 0.5) {
     const u = t01 / 0.5;
-    return lerpOklch(white, base, u);
+    return lerpIn(space, white, base, u);
   }
   const u = (t01 - 0.5) / 0.5;
-  return lerpOklch(base, black, u);
+  return lerpIn(space, base, black, u);
 }
 
 export function generateRamp9(
   baseHex: string,
-  stopSet: "figma" | "even" = "figma"
+  stopSet: "figma" | "even" | StepScale = "figma",
+  anchor: BaseAnchor = "middle",
+  settings: RampSettings = DEFAULT_RAMP_SETTINGS,
+  alignment?: LightnessAlignment
 ): Ramp {
+  const { steps, colors, baseStep, aligned } = sampleRamp(
+    baseHex,
+    stopSet,
+    anchor,
+    settings,
+    alignment
+  );
+
+  const out: Ramp = {};
+  for (let i = 0; i < steps.length; i++) out[steps[i]] = toHexSafe(colors[i]);
+
+  // Guarantee base equals original input for its step (500 by default);
+  // aligned ramps trade this for the shared lightness
+  if (baseStep !== null && !aligned) out[baseStep] = baseToHex(baseHex);
+
+  return out;
+}
+
+/** Wide-gamut CSS notation for primitives that sRGB hex cannot reach. */
+export type WideGamutFormat = "p3" | "oklch";
+
+export type StepGamut = {
+  /** Unclamped color as `color(display-p3 …)` (clamped to P3) or `oklch(…)`. */
+  wide: string;
+  /** OKLab distance the sRGB clamp moved the color; 0 = not clipped. */
+  clip: number;
+  /** The unclamped color lies outside Display-P3 as well. */
+  outsideP3: boolean;
+};
+
+export type RampGamut = Record<RampStep, StepGamut>;
+
+const toP3 = converter("p3");
+const clampRgb = clampGamut("rgb");
+const clampP3 = clampGamut("p3");
+const inP3 = inGamut("p3");
+const okDistance = differenceEuclidean("oklab");
+
+/**
+Same samples as generateRamp9, before clamping: what each step looks like on a
+wide-gamut display, and how far the sRGB hex had to move from it.
+*/
+export function rampGamut(
+  baseHex: string,
+  stopSet: "figma" | "even" | StepScale = "figma",
+  anchor: BaseAnchor = "middle",
+  settings: RampSettings = DEFAULT_RAMP_SETTINGS,
+  alignment?: LightnessAlignment,
+  format: WideGamutFormat = "p3"
+): RampGamut {
+  const { steps, colors, baseStep, aligned } = sampleRamp(
+    baseHex,
+    stopSet,
+    anchor,
+    settings,
+    alignment
+  );
+
+  const out: RampGamut = {};
+  for (let i = 0; i < steps.length; i++) {
+    const keepBase = steps[i] === baseStep && !aligned;
+    const color = keepBase ? parse(baseHex)! : colors[i];
+    out[steps[i]] = {
+      wide: formatWide(color, format),
+      clip: round(okDistance(color, clampRgb(color)!), 4),
+      outsideP3: !inP3(color)
+    };
+  }
+  return out;
+}
+
+function formatWide(color: any, format: WideGamutFormat) {
+  if (format === "oklch") {
+    const { l, c, h } = toOklch(color) as any;
+    return `oklch(${round(l, 4)} ${round(c, 4)} ${round(h ?? 0, 2)})`;
+  }
+  const { r, g, b } = toP3(clampP3(color)!) as any;
+  return `color(display-p3 ${round(r, 4)} ${round(g, 4)} ${round(b, 4)})`;
+}
+
+function round(n: number, digits: number) {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+/** Unclamped samples for every step of the scale, in scale order. */
+function sampleRamp(
+  baseHex: string,
+  stopSet: "figma" | "even" | StepScale,
+  anchor: BaseAnchor,
+  settings: RampSettings,
+  alignment?: LightnessAlignment
+) {
+  const scale = resolveScale(stopSet);
+  const settingsErrors = validateRampSettings(settings);
+  if (settingsErrors.length) throw new Error(settingsErrors[0]);
+  const { space } = settings;
+
   const baseParsed = parse(baseHex);
-  const base = baseParsed ? toOklch(baseParsed) : null;
+  const base = baseParsed ? converter(space)(baseParsed) : null;
   if (!base) throw new Error("Invalid hex color");
 
+  const { positions, steps } = scale;
+  const baseStep = anchorStep(baseHex, scale, anchor);
+  const pivot = baseStep === null ? 0.5 : positions[steps.indexOf(baseStep)];
+
   // Step: get the lighter and darker usable endpoints from the initial gradient
-  const lightEndpoint = sampleWhiteBaseBlack(baseHex, 0.25);
-  const darkEndpoint = sampleWhiteBaseBlack(baseHex, 0.75);
+  const lightT = 0.375 - pivot / 4;
+  const darkT = 0.875 - pivot / 4;
+  const lightEndpoint = sampleWhiteBaseBlack(baseHex, lightT, space);
+  const darkEndpoint = sampleWhiteBaseBlack(baseHex, darkT, space);
+
+  const targets = alignment ? lightnessTargets(scale, alignment) : null;
 
   // Step: sample positions on refined gradient light -> base -> dark
-  const positions =
-    stopSet === "even"
-      ? [0.0, 0.125, 0.25, 0.375, 0.5, 0.625, 0.75, 0.875, 1.0]
-      : [0.0, 0.13, 0.25, 0.38, 0.5, 0.63, 0.75, 0.88, 1.0];
+  const colors = positions.map((t, i) => {
+    const c = sampleRefined(
+      settings,
+      lightEndpoint,
+      base,
+      darkEndpoint,
+      t,
+      pivot
+    );
+    if (!targets) return c;
+    // Aligned: keep the sample's hue and chroma, replace its lightness
+    const lch: any = toOklch(c);
+    return { mode: "oklch", l: targets[i], c: lch.c, h: lch.h };
+  });
 
-  const steps: RampStep[] = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+  return { steps, colors, baseStep, aligned: targets !== null };
+}
 
-  const out: Partial<Ramp> = {};
-  for (let i = 0; i < steps.length; i++) {
-    const t = positions[i];
-    const c = sampleRefined(lightEndpoint, base, darkEndpoint, t);
-    out[steps[i]] = toHexSafe(c);
+/**
+The step the base color lands on, or null when anchored in the middle of a
+scale that has no step at 50% (e.g. Radix 1–12).
+*/
+export function anchorStep(
+  baseHex: string,
+  stopSet: "figma" | "even" | StepScale,
+  anchor: BaseAnchor = "middle"
+): RampStep | null {
+  const { steps, positions } = resolveScale(stopSet);
+
+  if (anchor === "middle") {
+    const mid = positions.indexOf(0.5);
+    return mid === -1 ? null : steps[mid];
   }
+  if (anchor !== "auto") {
+    if (!steps.includes(anchor))
+      throw new Error(`Step ${anchor} is not in the scale`);
+    return anchor;
+  }
+
+  // Auto: white is L=1 at 0%, black is L=0 at 100%
+  const base = toOklch(parse(baseHex));
+  if (!base) throw new Error("Invalid hex color");
+  const target = 1 - base.l;
+  let best = 0;
+  for (let i = 1; i < positions.length; i++) {
+    if (Math.abs(positions[i] - target) < Math.abs(positions[best] - target))
+      best = i;
+  }
+  return steps[best];
+}
+
+/** Hand-set hex per step; these steps no longer follow the base color. */
+export type StepLocks = Record<RampStep, string>;
 
-  // Guarantee base equals original input for 500
-  out[500] = normalizeHex(baseHex);
+const toOklab = converter("oklab");
 
-  return out as Ramp;
+/**
+Replaces locked steps with their hex. With `reflow`, the unlocked steps
+between two locks take a share of those locks' OKLab offsets, fading to zero
+towards the ramp ends and the base step, so edits blend into their neighbors.
+*/
+export function applyLocks(
+  ramp: Ramp,
+  locks: StepLocks = {},
+  reflow = false,
+  baseStep: RampStep | null = null
+): Ramp {
+  const steps = rampSteps(ramp);
+  const locked = steps.filter((s) => locks[s] !== undefined);
+  if (!locked.length) return ramp;
+
+  const out: Ramp = { ...ramp };
+  for (const s of locked) out[s] = normalizeHex(locks[s]);
+  if (!reflow) return out;
+
+  // Pins: locks carry their offset; ends and an unlocked base carry none
+  const offset = (s: RampStep) => {
+    const a = toOklab(parse(ramp[s]))!;
+    const b = toOklab(parse(out[s]))!;
+    return { l: b.l - a.l, a: b.a - a.a, b: b.b - a.b };
+  };
+  const pins = new Map<number, { l: number; a: number; b: number }>();
+  const zero = { l: 0, a: 0, b: 0 };
+  pins.set(-1, zero);
+  pins.set(steps.length, zero);
+  if (baseStep !== null && locks[baseStep] === undefined)
+    pins.set(steps.indexOf(baseStep), zero);
+  for (const s of locked) pins.set(steps.indexOf(s), offset(s));
+  const pinIndexes = [...pins.keys()].sort((a, b) => a - b);
+
+  steps.forEach((s, i) => {
+    if (pins.has(i)) return;
+    const right = pinIndexes.find((p) => p > i)!;
+    const left = pinIndexes[pinIndexes.indexOf(right) - 1];
+    const t = (i - left) / (right - left);
+    const from = pins.get(left)!;
+    const to = pins.get(right)!;
+    const lab = toOklab(parse(ramp[s]))!;
+    out[s] = toHexSafe({
+      mode: "oklab",
+      l: lab.l + from.l + (to.l - from.l) * t,
+      a: lab.a + from.a + (to.a - from.a) * t,
+      b: lab.b + from.b + (to.b - from.b) * t
+    });
+  });
+  return out;
 }
 
-function sampleRefined(light: any, base: any, dark: any, t01: number) {
-  if (t01 <= 0.5) {
-    const u = t01 / 0.5;
-    return lerpOklch(light, base, u);
+/** Moves locks onto the nearest steps of another scale; later steps win ties. */
+export function remapLocks(
+  locks: StepLocks,
+  from: StepScale,
+  to: StepScale
+): StepLocks {
+  const out: StepLocks = {};
+  for (const [step, hex] of Object.entries(locks)) {
+    out[remapStep(Number(step), from, to)] = hex;
   }
-  const u = (t01 - 0.5) / 0.5;
-  return lerpOklch(base, dark, u);
+  return out;
 }
 
-function lerpOklch(a: any, b: any, t: number) {
-  const ah = wrapHue(a.h ?? 0);
-  const bh = wrapHue(b.h ?? 0);
-  const dh = shortestHueDelta(ah, bh);
+function resolveScale(stopSet: "figma" | "even" | StepScale) {
+  const scale = typeof stopSet === "string" ? getScale(stopSet)! : stopSet;
+  const scaleErrors = validateScale(scale);
+  if (scaleErrors.length) throw new Error(scaleErrors[0]);
+  return scale;
+}
 
-  const h = wrapHue(ah + dh * t);
-  const l = (a.l ?? 0) + ((b.l ?? 0) - (a.l ?? 0)) * t;
-  const c = (a.c ?? 0) + ((b.c ?? 0) - (a.c ?? 0)) * t;
+function sampleRefined(
+  settings: RampSettings,
+  light: any,
+  base: any,
+  dark: any,
+  t01: number,
+  pivot = 0.5
+) {
+  const { space, lightness, chroma } = settings;
+  if (t01 <= pivot) {
+    const u = pivot === 0 ? 1 : t01 / pivot;
+    return lerpIn(space, light, base, u, {
+      l: easeCurve(lightness, u),
+      c: easeCurve(chroma, u)
+    });
+  }
+  // Dark half runs base -> end, so mirror the curves
+  const u = (t01 - pivot) / (1 - pivot);
+  return lerpIn(space, base, dark, u, {
+    l: 1 - easeCurve(lightness, 1 - u),
+    c: 1 - easeCurve(chroma, 1 - u)
+  });
+}
 
-  return { mode: "oklch", l, c, h };
+/**
+Interpolates a -> b channel by channel in `space`. Hue takes the shorter way
+around; `eased` overrides t for the lightness and chroma channels.
+*/
+function lerpIn(
+  space: ColorSpace,
+  a: any,
+  b: any,
+  t: number,
+  eased?: { l: number; c: number }
+) {
+  const out: any = { mode: space };
+  for (const [name, kind] of SPACE_CHANNELS[space]) {
+    if (kind === "h") {
+      const ah = wrapHue(a[name] ?? 0);
+      const bh = wrapHue(b[name] ?? 0);
+      out[name] = wrapHue(ah + shortestHueDelta(ah, bh) * t);
+    } else {
+      const k = eased ? eased[kind] : t;
+      out[name] = (a[name] ?? 0) + ((b[name] ?? 0) - (a[name] ?? 0)) * k;
+    }
+  }
+  return out;
 }
 
 function wrapHue(h: number) {
@@ -100,8 +613,8 @@ function shortestHueDelta(a: number, b: number) {
   return d;
 }
 
-function toHexSafe(oklchColor: any): string {
-  const clamped = clampGamut(oklchColor);
+function toHexSafe(color: any): string {
+  const clamped = clampGamut("rgb")(color);
   if (!clamped) throw new Error("Failed to clamp color to gamut");
   const rgb = toRgb(clamped as any);
   if (!rgb) throw new Error("Failed to convert to RGB");
@@ -125,6 +638,36 @@ export function normalizeHex(hex: string): string {
   return normalizeHex(formatted);
 }
 
+/** The base step's hex: hex input as typed, anything else clamped to sRGB. */
+function baseToHex(base: string) {
+  if (isValidHex(base)) return normalizeHex(base);
+  return toHexSafe(parse(base));
+}
+
+/** A base color as typed (any CSS Color 4 syntax), parsed. */
+export type ParsedColor = {
+  /** What the base step shows: clamped to sRGB, alpha dropped. */
+  hex: string;
+  oklch: { l: number; c: number; h: number };
+  /** Below 1 for translucent input; ramps ignore it. */
+  alpha: number;
+  inGamut: boolean;
+};
+
+const inRgb = inGamut("rgb");
+
+export function parseColorInput(input: string): ParsedColor | null {
+  const color = parse(input.trim());
+  if (!color) return null;
+  const { l, c, h } = toOklch(color) as any;
+  return {
+    hex: baseToHex(input.trim()),
+    oklch: { l, c, h: h ?? 0 },
+    alpha: color.alpha ?? 1,
+    inGamut: inRgb(color)
+  };
+}
+
 export function isValidHex(hex: string) {
   const h = hex.trim();
   return /^#[0-9a-fA-F]{6}$/.test(h) || /^#[0-9a-fA-F]{3}$/.test(h);
@@ -0,0 +1,280 @@
+export type ComponentState = "default" | "hover" | "active" | "focus" | "disabled";
+
+/** Emission order inside each component; matches the original token order. */
+export const COMPONENT_STATES: ComponentState[] = [
+  "default",
+  "hover",
+  "active",
+  "focus",
+  "disabled"
+];
+
+export type ComponentPart = {
+  /** e.g. "bg", "text", "border". */
+  name: string;
+  /**
+  Semantic token per state (e.g. "--surface-inverse"), or a literal CSS value
+  such as "transparent". States left out produce no token.
+  */
+  states: Partial<Record<ComponentState, string>>;
+};
+
+export type ComponentDefinition = {
+  /** Token prefix, e.g. "btn-primary" -> --btn-primary-bg-hover. */
+  id: string;
+  label: string;
+  builtin?: boolean;
+  parts: ComponentPart[];
+};
+
+export const BUILTIN_COMPONENTS: ComponentDefinition[] = [
+  {
+    id: "btn-primary",
+    label: "Primary button",
+    builtin: true,
+    parts: [
+      {
+        name: "bg",
+        states: {
+          default: "--surface-inverse",
+          hover: "--accent-hover",
+          active: "--accent-active",
+          disabled: "--surface-secondary"
+        }
+      },
+      {
+        name: "text",
+        states: { default: "--text-inverse", disabled: "--text-disabled" }
+      }
+    ]
+  },
+  {
+    id: "btn-secondary",
+    label: "Secondary button",
+    builtin: true,
+    parts: [
+      {
+        name: "bg",
+        states: {
+          default: "transparent",
+          hover: "--surface-secondary",
+          active: "--surface-secondary"
+        }
+      },
+      {
+        name: "text",
+        states: { default: "--text-primary", disabled: "--text-disabled" }
+      },
+      {
+        name: "border",
+        states: { default: "--border-default", disabled: "--border-subtle" }
+      }
+    ]
+  },
+  {
+    id: "input",
+    label: "Input",
+    builtin: true,
+    parts: [
+      {
+        name: "bg",
+        states: { default: "--surface-primary", disabled: "--surface-secondary" }
+      },
+      {
+        name: "text",
+        states: { default: "--text-primary", disabled: "--text-disabled" }
+      },
+      { name: "placeholder", states: { default: "--text-muted" } },
+      {
+        name: "border",
+        states: { default: "--border-default", focus: "--accent" }
+      }
+    ]
+  },
+  {
+    id: "card",
+    label: "Card",
+    builtin: true,
+    parts: [
+      {
+        name: "bg",
+        states: { default: "--surface-primary", hover: "--surface-secondary" }
+      },
+      { name: "text", states: { default: "--text-primary" } },
+      { name: "text-muted", states: { default: "--text-muted" } },
+      {
+        name: "border",
+        states: { default: "--border-subtle", hover: "--border-default" }
+      }
+    ]
+  },
+  {
+    id: "badge",
+    label: "Badge",
+    builtin: true,
+    parts: [
+      { name: "bg", states: { default: "--accent" } },
+      { name: "text", states: { default: "--text-on-accent" } }
+    ]
+  },
+  {
+    id: "alert",
+    label: "Alert",
+    builtin: true,
+    parts: [
+      { name: "bg", states: { default: "--surface-secondary" } },
+      { name: "text", states: { default: "--text-primary" } },
+      { name: "border", states: { default: "--accent" } },
+      { name: "icon", states: { default: "--accent" } }
+    ]
+  },
+  {
+    id: "tooltip",
+    label: "Tooltip",
+    builtin: true,
+    parts: [
+      { name: "bg", states: { default: "--surface-inverse" } },
+      { name: "text", states: { default: "--text-inverse" } }
+    ]
+  },
+  {
+    id: "tabs",
+    label: "Tabs",
+    builtin: true,
+    parts: [
+      {
+        name: "text",
+        states: {
+          default: "--text-muted",
+          hover: "--text-primary",
+          active: "--text-primary",
+          disabled: "--text-disabled"
+        }
+      },
+      {
+        name: "indicator",
+        states: {
+          default: "transparent",
+          hover: "--border-default",
+          active: "--accent"
+        }
+      },
+      { name: "border", states: { default: "--border-subtle" } },
+      { name: "outline", states: { focus: "--accent" } }
+    ]
+  },
+  {
+    id: "checkbox",
+    label: "Checkbox",
+    builtin: true,
+    parts: [
+      {
+        name: "bg",
+        states: {
+          default: "--surface-primary",
+          active: "--accent",
+          disabled: "--surface-secondary"
+        }
+      },
+      {
+        name: "border",
+        states: {
+          default: "--border-strong",
+          hover: "--accent",
+          focus: "--accent",
+          disabled: "--border-subtle"
+        }
+      },
+      { name: "mark", states: { default: "--text-inverse" } }
+    ]
+  },
+  {
+    id: "focus-ring",
+    label: "Focus ring",
+    builtin: true,
+    parts: [{ name: "color", states: { default: "--accent" } }]
+  }
+];
+
+export function componentTokenName(
+  id: string,
+  part: string,
+  state: ComponentState
+) {
+  return state === "default"
+    ? `--${id}-${part}`
+    : `--${id}-${part}-${state}`;
+}
+
+/**
+Resolves every component token for one theme. Values naming a semantic token
+take that token's value; values naming a token the theme does not define are
+skipped; anything else is emitted as a literal.
+*/
+export function resolveComponents(
+  registry: ComponentDefinition[],
+  semantic: Record<string, string>
+): Record<string, string> {
+  const out: Record<string, string> = {};
+
+  for (const component of registry) {
+    for (const state of COMPONENT_STATES) {
+      for (const part of component.parts) {
+        const ref = part.states[state];
+        if (!ref) continue;
+        const value = ref.startsWith("--") ? semantic[ref] : ref;
+        if (value === undefined) continue;
+        out[componentTokenName(component.id, part.name, state)] = value;
+      }
+    }
+  }
+
+  return out;
+}
+
+/** Points every state that references semantic token `from` at `to`. */
+export function renameRegistryToken(
+  registry: ComponentDefinition[],
+  from: string,
+  to: string
+): ComponentDefinition[] {
+  return registry.map((component) => ({
+    ...component,
+    parts: component.parts.map((part) => ({
+      ...part,
+      states: Object.fromEntries(
+        Object.entries(part.states).map(([state, ref]) => [
+          state,
+          ref === from ? to : ref
+        ])
+      )
+    }))
+  }));
+}
+
+/** Returns human-readable problems; an empty list means the registry is usable. */
+export function validateRegistry(registry: ComponentDefinition[]): string[] {
+  const errors: string[] = [];
+  const tokens = new Set<string>();
+
+  for (const component of registry) {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(component.id)) {
+      errors.push(`"${component.id}" is not a valid component id`);
+      continue;
+    }
+    for (const part of component.parts) {
+      if (!/^[a-z0-9][a-z0-9-]*$/.test(part.name)) {
+        errors.push(`${component.id} has an invalid part name "${part.name}"`);
+        continue;
+      }
+      for (const state of COMPONENT_STATES) {
+        if (!part.states[state]) continue;
+        const name = componentTokenName(component.id, part.name, state);
+        if (tokens.has(name)) errors.push(`${name} is defined more than once`);
+        tokens.add(name);
+      }
+    }
+  }
+
+  return errors;
+}
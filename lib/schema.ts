@@ -0,0 +1,225 @@
+import { remapStep, type RampStep, type StepScale } from "./ramp";
+import { DEFAULT_THEMES, resolveStep, type ThemeDefinition } from "./themes";
+import type { ThemeName } from "./tokens";
+
+export type SchemaSlot = {
+  /** Key used in ThemeMapping, e.g. "surfacePrimary". */
+  key: string;
+  label: string;
+};
+
+export type SemanticRole = {
+  /** CSS custom property name, e.g. "--text-primary". */
+  token: string;
+  /** ThemeMapping slot whose ramp this role reads from. */
+  slot?: string;
+  /**
+  Step per theme, used as-is and as the starting point when solving for
+  contrast. Themes that extend another may leave their entry out.
+  */
+  step?: Record<ThemeName, RampStep>;
+  /** Reuse the value of an earlier role instead of slot + step. */
+  alias?: string;
+  /** Minimum WCAG ratio against an earlier role. */
+  minContrast?: { against: string; ratio: number };
+};
+
+export type SemanticSchema = {
+  slots: SchemaSlot[];
+  roles: SemanticRole[];
+};
+
+export const DEFAULT_SCHEMA: SemanticSchema = {
+  slots: [
+    { key: "surfacePrimary", label: "Surface primary" },
+    { key: "surfaceInverse", label: "Surface inverse" },
+    { key: "textPrimary", label: "Text primary" },
+    { key: "textInverse", label: "Text inverse" },
+    { key: "accentPrimary", label: "Accent primary" },
+    { key: "accentInverse", label: "Accent inverse" }
+  ],
+  roles: [
+    {
+      token: "--surface-primary",
+      slot: "surfacePrimary",
+      step: { light: 100, dark: 900 }
+    },
+    {
+      token: "--surface-secondary",
+      slot: "surfacePrimary",
+      step: { light: 200, dark: 800 }
+    },
+    {
+      token: "--surface-inverse",
+      slot: "surfaceInverse",
+      step: { light: 900, dark: 100 }
+    },
+
+    {
+      token: "--text-primary",
+      slot: "textPrimary",
+      step: { light: 900, dark: 100 },
+      minContrast: { against: "--surface-primary", ratio: 7 }
+    },
+    {
+      token: "--text-secondary",
+      slot: "textPrimary",
+      step: { light: 700, dark: 200 },
+      minContrast: { against: "--surface-primary", ratio: 4.5 }
+    },
+    {
+      token: "--text-muted",
+      slot: "textPrimary",
+      step: { light: 600, dark: 400 },
+      minContrast: { against: "--surface-primary", ratio: 4.5 }
+    },
+    {
+      token: "--text-disabled",
+      slot: "textPrimary",
+      step: { light: 400, dark: 500 }
+    },
+    {
+      token: "--text-inverse",
+      slot: "textInverse",
+      step: { light: 100, dark: 900 },
+      minContrast: { against: "--surface-inverse", ratio: 4.5 }
+    },
+
+    {
+      token: "--border-default",
+      slot: "textPrimary",
+      step: { light: 300, dark: 700 }
+    },
+    {
+      token: "--border-strong",
+      slot: "textPrimary",
+      step: { light: 400, dark: 600 },
+      minContrast: { against: "--surface-primary", ratio: 3 }
+    },
+    {
+      token: "--border-subtle",
+      slot: "textPrimary",
+      step: { light: 200, dark: 800 }
+    },
+
+    {
+      token: "--accent",
+      slot: "accentPrimary",
+      step: { light: 500, dark: 500 },
+      minContrast: { against: "--surface-primary", ratio: 4.5 }
+    },
+    {
+      token: "--accent-hover",
+      slot: "accentPrimary",
+      step: { light: 600, dark: 600 },
+      minContrast: { against: "--surface-primary", ratio: 4.5 }
+    },
+    {
+      token: "--accent-active",
+      slot: "accentPrimary",
+      step: { light: 700, dark: 700 },
+      minContrast: { against: "--surface-primary", ratio: 4.5 }
+    },
+    {
+      token: "--accent-inverse",
+      slot: "accentInverse",
+      step: { light: 500, dark: 500 }
+    },
+    {
+      token: "--text-on-accent",
+      slot: "textInverse",
+      step: { light: 100, dark: 900 },
+      minContrast: { against: "--accent", ratio: 4.5 }
+    },
+
+    { token: "--link", alias: "--accent" },
+    { token: "--link-hover", alias: "--accent-hover" },
+    { token: "--link-active", alias: "--accent-active" }
+  ]
+};
+
+/** Returns human-readable problems; an empty list means the schema is usable. */
+export function validateSchema(
+  schema: SemanticSchema,
+  themes: ThemeDefinition[] = DEFAULT_THEMES,
+  steps?: RampStep[]
+): string[] {
+  const errors: string[] = [];
+  const slots = new Set(schema.slots.map((s) => s.key));
+  const seen = new Set<string>();
+
+  for (const role of schema.roles) {
+    if (!/^--[a-z0-9-]+$/.test(role.token)) {
+      errors.push(`"${role.token}" is not a valid custom property name`);
+    } else if (seen.has(role.token)) {
+      errors.push(`${role.token} is defined more than once`);
+    }
+
+    if (role.alias) {
+      if (!seen.has(role.alias)) {
+        errors.push(
+          `${role.token} aliases ${role.alias}, which is not defined above it`
+        );
+      }
+    } else {
+      if (!role.slot || !slots.has(role.slot))
+        errors.push(`${role.token} uses unknown slot "${role.slot ?? ""}"`);
+      for (const t of themes) {
+        const step = resolveStep(themes, role, t.name);
+        if (step === undefined) {
+          errors.push(`${role.token} has no step for theme "${t.name}"`);
+        } else if (steps && !steps.includes(step)) {
+          errors.push(`${role.token} uses step ${step}, which is not in the scale`);
+        }
+      }
+    }
+
+    if (role.minContrast && !seen.has(role.minContrast.against)) {
+      errors.push(
+        `${role.token} checks contrast against ${role.minContrast.against}, which is not defined above it`
+      );
+    }
+
+    seen.add(role.token);
+  }
+
+  return errors;
+}
+
+/** Moves every role's steps to the nearest equivalent in another scale. */
+export function remapSchemaSteps(
+  schema: SemanticSchema,
+  from: StepScale,
+  to: StepScale
+): SemanticSchema {
+  return {
+    ...schema,
+    roles: schema.roles.map((role) => {
+      if (!role.step) return role;
+      const step: Record<ThemeName, RampStep> = {};
+      for (const [theme, s] of Object.entries(role.step)) {
+        step[theme] = remapStep(s, from, to);
+      }
+      return { ...role, step };
+    })
+  };
+}
+
+/** Renames a role and every alias and contrast check that points at it. */
+export function renameRole(
+  schema: SemanticSchema,
+  from: string,
+  to: string
+): SemanticSchema {
+  return {
+    ...schema,
+    roles: schema.roles.map((role) => {
+      const next = { ...role };
+      if (next.token === from) next.token = to;
+      if (next.alias === from) next.alias = to;
+      if (next.minContrast?.against === from)
+        next.minContrast = { ...next.minContrast, against: to };
+      return next;
+    })
+  };
+}
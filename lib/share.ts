@@ -0,0 +1,127 @@
+import {
+  getScale,
+  validateRampSettings,
+  validateScale,
+  type LightnessAlignment,
+  type RampSettings,
+  type StepScale
+} from "./ramp";
+import { validateSchema, type SemanticSchema } from "./schema";
+import { validateThemes, type ThemeDefinition } from "./themes";
+import type { PaletteColor, ThemeMapping, ThemeName } from "./tokens";
+
+/**
+What a share link carries: enough to rebuild the same ramps and tokens.
+Everything else stays as the recipient has it.
+*/
+export type SharedPalette = {
+  palette: PaletteColor[];
+  mapping: Record<ThemeName, ThemeMapping>;
+  /** Preset id, or the whole scale when it is custom. */
+  stopSet: string | StepScale;
+  theme: ThemeName;
+  /** Missing from version 1 links. */
+  rampSettings?: RampSettings;
+  alignment?: LightnessAlignment | null;
+  schema?: SemanticSchema;
+  themes?: ThemeDefinition[];
+};
+
+/** Fragment key; the value is "<version>.<base64url deflated JSON>". */
+export const SHARE_PARAM = "share";
+const SHARE_VERSION = 2;
+
+async function pipe(bytes: Uint8Array, transform: GenericTransformStream) {
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/** URL fragment (without "#") for the shared state. */
+export async function encodeShareFragment(shared: SharedPalette) {
+  const json = JSON.stringify({
+    v: SHARE_VERSION,
+    p: shared.palette,
+    m: shared.mapping,
+    s: shared.stopSet,
+    t: shared.theme,
+    r: shared.rampSettings,
+    a: shared.alignment,
+    c: shared.schema,
+    h: shared.themes
+  });
+  const packed = await pipe(
+    new TextEncoder().encode(json),
+    new CompressionStream("deflate-raw")
+  );
+  return `${SHARE_PARAM}=${SHARE_VERSION}.${toBase64Url(packed)}`;
+}
+
+/**
+Reads a fragment made by encodeShareFragment. Returns null when the fragment
+is not a share link; throws when it is one but cannot be used.
+*/
+export async function decodeShareFragment(
+  hash: string
+): Promise<SharedPalette | null> {
+  const value = new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_PARAM);
+  if (!value) return null;
+
+  const [version, data] = value.split(".");
+  if (Number(version) > SHARE_VERSION)
+    throw new Error("This link was made by a newer version of the app");
+  if (!(Number(version) >= 1) || !data)
+    throw new Error("The link is damaged or incomplete");
+
+  let json: any;
+  try {
+    const bytes = await pipe(
+      fromBase64Url(data),
+      new DecompressionStream("deflate-raw")
+    );
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error("The link is damaged or incomplete");
+  }
+
+  const palette = json?.p;
+  const isColor = (c: any) =>
+    typeof c?.id === "string" && typeof c?.hex === "string";
+  if (!Array.isArray(palette) || !palette.every(isColor))
+    throw new Error("The link has no palette");
+  if (typeof json.m !== "object" || !json.m)
+    throw new Error("The link has no theme mapping");
+  if (typeof json.s === "string" && !getScale(json.s))
+    throw new Error(`Unknown stop set "${json.s}"`);
+  if (typeof json.s === "object" && validateScale(json.s).length)
+    throw new Error("The link has an invalid stop set");
+  if (json.r && validateRampSettings(json.r).length)
+    throw new Error("The link has invalid ramp settings");
+  if (json.h && (!Array.isArray(json.h) || validateThemes(json.h).length))
+    throw new Error("The link has invalid themes");
+  const isSchema = (c: any) =>
+    Array.isArray(c?.slots) && Array.isArray(c?.roles);
+  if (json.c && (!isSchema(json.c) || validateSchema(json.c, json.h).length))
+    throw new Error("The link has an invalid semantic schema");
+
+  return {
+    palette,
+    mapping: json.m,
+    stopSet: json.s ?? "figma",
+    theme: typeof json.t === "string" ? json.t : "light",
+    rampSettings: json.r,
+    alignment: json.a,
+    schema: json.c,
+    themes: json.h
+  };
+}
@@ -0,0 +1,310 @@
+import { converter, formatHex, parse, type Hsv } from "culori";
+import { rampSteps, type Ramp } from "./ramp";
+import { slugifyId, uniqueId, type PaletteColor } from "./tokens";
+import { unzipFiles, zipFiles } from "./zip";
+
+/*
+Palette files from other tools: Adobe Swatch Exchange (.ase), GIMP palettes
+(.gpl) and Procreate (.swatches, a zip around Swatches.json). Reading them
+yields named hex swatches; writing them takes the generated ramps.
+*/
+
+export type Swatch = { name: string; hex: string };
+export type SwatchGroup = { name: string; swatches: Swatch[] };
+
+/** A palette row with its generated ramp, as rendered on the page. */
+export type SwatchRamp = { id: string; label: string; ramp: Ramp };
+
+/** One color in Procreate's Swatches.json; channels are 0–1. */
+type ProcreateSwatch = {
+  hue: number;
+  saturation: number;
+  brightness: number;
+  alpha: number;
+  colorSpace: number;
+};
+
+type ProcreatePalette = {
+  name?: string;
+  swatches?: (ProcreateSwatch | null)[];
+};
+
+const toHsv = converter("hsv");
+
+/** Detects the format from the bytes; throws when it is none of the three. */
+export async function readSwatchFile(
+  bytes: Uint8Array
+): Promise<SwatchGroup[]> {
+  const magic = new TextDecoder().decode(bytes.subarray(0, 12));
+  if (magic.startsWith("ASEF")) return parseAse(bytes);
+  if (magic.startsWith("PK")) return parseProcreate(bytes);
+  if (magic.startsWith("GIMP Palette"))
+    return parseGpl(new TextDecoder().decode(bytes));
+  throw new Error("Not an ASE, GPL or Procreate swatches file");
+}
+
+/** One palette row per swatch; ids come from the names and avoid `used`. */
+export function swatchesToPalette(
+  groups: SwatchGroup[],
+  used: Set<string>
+): PaletteColor[] {
+  const taken = new Set(used);
+  return groups.flatMap((g) =>
+    g.swatches.map((s) => {
+      const label = s.name.trim() || s.hex;
+      const id = uniqueId(slugifyId(label) || "color", taken);
+      taken.add(id);
+      return { id, label, hex: s.hex };
+    })
+  );
+}
+
+/** A group per ramp, swatches named like the primitives ("deep-blue-500"). */
+export function rampSwatchGroups(ramps: SwatchRamp[]): SwatchGroup[] {
+  return ramps.map((r) => ({
+    name: r.label,
+    swatches: rampSteps(r.ramp).map((step) => ({
+      name: `${r.id}-${step}`,
+      hex: r.ramp[step]
+    }))
+  }));
+}
+
+function rgbHex(r: number, g: number, b: number) {
+  return formatHex({ mode: "rgb", r, g, b });
+}
+
+function parseAse(bytes: Uint8Array): SwatchGroup[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const groups: SwatchGroup[] = [];
+  let current: SwatchGroup | null = null;
+  const ungrouped: SwatchGroup = { name: "", swatches: [] };
+
+  const readName = (at: number) => {
+    const length = view.getUint16(at);
+    let name = "";
+    for (let i = 0; i < length - 1; i++)
+      name += String.fromCharCode(view.getUint16(at + 2 + i * 2));
+    return { name, next: at + 2 + length * 2 };
+  };
+
+  const count = view.getUint32(8);
+  let at = 12;
+  for (let i = 0; i < count && at < bytes.length; i++) {
+    const type = view.getUint16(at);
+    const length = view.getUint32(at + 2);
+    const body = at + 6;
+    at = body + length;
+
+    if (type === 0xc001) {
+      current = { name: readName(body).name, swatches: [] };
+      groups.push(current);
+    } else if (type === 0xc002) {
+      current = null;
+    } else if (type === 0x0001) {
+      const { name, next } = readName(body);
+      const model = new TextDecoder().decode(bytes.subarray(next, next + 4));
+      const v = (n: number) => view.getFloat32(next + 4 + n * 4);
+      let hex: string | undefined;
+      if (model === "RGB ") hex = rgbHex(v(0), v(1), v(2));
+      else if (model === "Gray") hex = rgbHex(v(0), v(0), v(0));
+      else if (model === "CMYK") {
+        const k = 1 - v(3);
+        hex = rgbHex((1 - v(0)) * k, (1 - v(1)) * k, (1 - v(2)) * k);
+      } else if (model === "LAB ") {
+        hex = formatHex({ mode: "lab", l: v(0) * 100, a: v(1), b: v(2) });
+      }
+      if (hex) (current ?? ungrouped).swatches.push({ name, hex });
+    }
+  }
+
+  if (ungrouped.swatches.length) groups.unshift(ungrouped);
+  return groups;
+}
+
+function parseGpl(text: string): SwatchGroup[] {
+  const group: SwatchGroup = { name: "", swatches: [] };
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    const name = /^Name:\s*(.*)$/.exec(line);
+    if (name) {
+      group.name = name[1].trim();
+      continue;
+    }
+    const m = /^\s*(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(line);
+    if (!m) continue;
+    const [r, g, b] = [m[1], m[2], m[3]].map((n) => Math.min(255, +n) / 255);
+    group.swatches.push({ name: m[4].trim(), hex: rgbHex(r, g, b) });
+  }
+  return [group];
+}
+
+async function parseProcreate(bytes: Uint8Array): Promise<SwatchGroup[]> {
+  const file = (await unzipFiles(bytes)).find((f) =>
+    /(^|\/)Swatches\.json$/.test(f.filename)
+  );
+  if (!file) throw new Error("Zip has no Swatches.json");
+  const json = JSON.parse(file.content);
+  const palettes: ProcreatePalette[] = Array.isArray(json) ? json : [json];
+  return palettes.map((p, pi) => {
+    const name = String(p?.name ?? `Palette ${pi + 1}`);
+    const swatches: Swatch[] = [];
+    const list = Array.isArray(p?.swatches) ? p.swatches : [];
+    list.forEach((s, i) => {
+      if (!s || typeof s.hue !== "number") return;
+      const hex = formatHex({
+        mode: "hsv",
+        h: s.hue * 360,
+        s: s.saturation,
+        v: s.brightness
+      });
+      swatches.push({ name: `${name} ${i + 1}`, hex });
+    });
+    return { name, swatches };
+  });
+}
+
+/** Adobe Swatch Exchange 1.0: a group per ramp, RGB global colors. */
+export function encodeAse(groups: SwatchGroup[]) {
+  const blocks: Uint8Array[] = [];
+  const name = (text: string) => {
+    const out = new DataView(new ArrayBuffer(2 + (text.length + 1) * 2));
+    out.setUint16(0, text.length + 1);
+    for (let i = 0; i < text.length; i++)
+      out.setUint16(2 + i * 2, text.charCodeAt(i));
+    return new Uint8Array(out.buffer);
+  };
+  const block = (type: number, ...parts: Uint8Array[]) => {
+    const length = parts.reduce((n, p) => n + p.length, 0);
+    const out = new Uint8Array(6 + length);
+    const view = new DataView(out.buffer);
+    view.setUint16(0, type);
+    view.setUint32(2, length);
+    let at = 6;
+    for (const p of parts) {
+      out.set(p, at);
+      at += p.length;
+    }
+    blocks.push(out);
+  };
+
+  for (const g of groups) {
+    block(0xc001, name(g.name));
+    for (const s of g.swatches) {
+      const rgb = parse(s.hex) as { r: number; g: number; b: number };
+      const color = new DataView(new ArrayBuffer(18));
+      [..."RGB "].forEach((c, i) => color.setUint8(i, c.charCodeAt(0)));
+      color.setFloat32(4, rgb.r);
+      color.setFloat32(8, rgb.g);
+      color.setFloat32(12, rgb.b);
+      color.setUint16(16, 0); // global
+      block(0x0001, name(s.name), new Uint8Array(color.buffer));
+    }
+    block(0xc002);
+  }
+
+  const header = new DataView(new ArrayBuffer(12));
+  [..."ASEF"].forEach((c, i) => header.setUint8(i, c.charCodeAt(0)));
+  header.setUint16(4, 1);
+  header.setUint16(6, 0);
+  header.setUint32(8, blocks.length);
+
+  const parts = [new Uint8Array(header.buffer), ...blocks];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
+
+/** GIMP palette with every ramp, one row of the grid per ramp. */
+export function encodeGpl(name: string, groups: SwatchGroup[]) {
+  const lines = [
+    "GIMP Palette",
+    `Name: ${name}`,
+    `Columns: ${Math.max(0, ...groups.map((g) => g.swatches.length))}`,
+    "#"
+  ];
+  for (const g of groups) {
+    lines.push(`# ${g.name}`);
+    for (const s of g.swatches) {
+      const rgb = parse(s.hex) as { r: number; g: number; b: number };
+      const channels = [rgb.r, rgb.g, rgb.b].map((c) =>
+        String(Math.round(c * 255)).padStart(3)
+      );
+      lines.push(`${channels.join(" ")}\t${s.name}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** A Procreate .swatches file (Procreate palettes hold up to 30 colors). */
+export function encodeProcreate(group: SwatchGroup) {
+  const swatches = group.swatches.slice(0, 30).map((s): ProcreateSwatch => {
+    const hsv: Hsv = toHsv(parse(s.hex)!);
+    return {
+      hue: (hsv.h ?? 0) / 360,
+      saturation: hsv.s,
+      brightness: hsv.v,
+      alpha: 1,
+      colorSpace: 0
+    };
+  });
+  return zipFiles([
+    {
+      filename: "Swatches.json",
+      content: JSON.stringify([{ name: group.name, swatches }])
+    }
+  ]);
+}
+
+const SHEET = {
+  padding: 24,
+  gap: 8,
+  cell: 96,
+  swatch: 56,
+  label: 34,
+  title: 24,
+  rowGap: 16
+};
+
+function escapeXml(text: string) {
+  return text.replace(/[<>&"]/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+Printable sheet laid out like the page's swatch grid: a titled row per ramp,
+each step as a color tile with its step and hex underneath.
+*/
+export function swatchSheetSvg(ramps: SwatchRamp[]) {
+  const { padding, gap, cell, swatch, label, title, rowGap } = SHEET;
+  const columns = Math.max(1, ...ramps.map((r) => rampSteps(r.ramp).length));
+  const rowHeight = title + swatch + label;
+  const width = padding * 2 + columns * cell + (columns - 1) * gap;
+  const rows = ramps.length;
+  const height =
+    padding * 2 + rows * rowHeight + Math.max(0, rows - 1) * rowGap;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="system-ui, -apple-system, Segoe UI, Roboto, sans-serif">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`
+  ];
+  ramps.forEach((r, row) => {
+    const y = padding + row * (rowHeight + rowGap);
+    parts.push(
+      `<text x="${padding}" y="${y + 16}" font-size="14" font-weight="600" fill="#111111">${escapeXml(r.label)}</text>`
+    );
+    rampSteps(r.ramp).forEach((step, col) => {
+      const x = padding + col * (cell + gap);
+      const top = y + title;
+      parts.push(
+        `<rect x="${x + 0.5}" y="${top + 0.5}" width="${cell - 1}" height="${swatch}" rx="8" fill="${r.ramp[step]}" stroke="#00000014"/>`,
+        `<text x="${x}" y="${top + swatch + 14}" font-size="11" fill="#111111">${step}</text>`,
+        `<text x="${x}" y="${top + swatch + 28}" font-size="11" font-family="ui-monospace, SFMono-Regular, Menlo, monospace" fill="#555555">${r.ramp[step]}</text>`
+      );
+    });
+  });
+  parts.push("</svg>", "");
+  return parts.join("\n");
+}
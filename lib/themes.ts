@@ -0,0 +1,94 @@
+import type { RampStep } from "./ramp";
+import type { SemanticRole } from "./schema";
+import type { ThemeMapping, ThemeName } from "./tokens";
+
+export type ThemeDefinition = {
+  /** Value of the data-theme attribute, e.g. "high-contrast". */
+  name: ThemeName;
+  /** Parent theme whose mapping and steps fill in anything not set here. */
+  extends?: ThemeName;
+};
+
+export const DEFAULT_THEMES: ThemeDefinition[] = [
+  { name: "light" },
+  { name: "dark" }
+];
+
+/** The theme followed by its ancestors, nearest first. */
+export function themeChain(
+  themes: ThemeDefinition[],
+  name: ThemeName
+): ThemeName[] {
+  const byName = new Map(themes.map((t) => [t.name, t]));
+  const chain: ThemeName[] = [];
+  let cur = byName.get(name);
+  while (cur && !chain.includes(cur.name)) {
+    chain.push(cur.name);
+    cur = cur.extends ? byName.get(cur.extends) : undefined;
+  }
+  return chain;
+}
+
+export function resolveMapping(
+  themes: ThemeDefinition[],
+  mapping: Record<ThemeName, ThemeMapping>,
+  name: ThemeName
+): ThemeMapping {
+  const out: ThemeMapping = {};
+  for (const t of themeChain(themes, name).reverse()) {
+    Object.assign(out, mapping[t]);
+  }
+  return out;
+}
+
+export function resolveStep(
+  themes: ThemeDefinition[],
+  role: SemanticRole,
+  name: ThemeName
+): RampStep | undefined {
+  if (!role.step) return undefined;
+  for (const t of themeChain(themes, name)) {
+    const step = role.step[t];
+    if (step !== undefined) return step;
+  }
+  return undefined;
+}
+
+export function validateThemes(themes: ThemeDefinition[]): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  for (const t of themes) {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(t.name)) {
+      errors.push(`"${t.name}" is not a valid theme name`);
+    } else if (names.has(t.name)) {
+      errors.push(`Theme "${t.name}" is defined more than once`);
+    }
+    names.add(t.name);
+  }
+
+  for (const t of themes) {
+    if (!t.extends) continue;
+    if (!names.has(t.extends)) {
+      errors.push(`Theme "${t.name}" extends unknown theme "${t.extends}"`);
+    } else if (hasCycle(themes, t)) {
+      errors.push(`Theme "${t.name}" has an inheritance cycle`);
+    }
+  }
+
+  if (!themes.length) errors.push("At least one theme is required");
+
+  return errors;
+}
+
+function hasCycle(themes: ThemeDefinition[], theme: ThemeDefinition) {
+  const byName = new Map(themes.map((t) => [t.name, t]));
+  const seen = new Set<string>();
+  let cur: ThemeDefinition | undefined = theme;
+  while (cur) {
+    if (seen.has(cur.name)) return true;
+    seen.add(cur.name);
+    cur = cur.extends ? byName.get(cur.extends) : undefined;
+  }
+  return false;
+}
@@ -1,21 +1,57 @@
-import type { Ramp, RampStep } from "./ramp";
+import {
+  auditContrast,
+  resolvePrimitive,
+  wcagRatio,
+  type ContrastAudit
+} from "./contrast";
+import {
+  rampSteps,
+  type BaseAnchor,
+  type Ramp,
+  type RampGamut,
+  type RampSettings,
+  type RampStep,
+  type StepLocks,
+  type WideGamutFormat
+} from "./ramp";
+import {
+  BUILTIN_COMPONENTS,
+  resolveComponents,
+  validateRegistry,
+  type ComponentDefinition
+} from "./registry";
+import {
+  DEFAULT_SCHEMA,
+  validateSchema,
+  type SemanticSchema
+} from "./schema";
+import {
+  DEFAULT_THEMES,
+  resolveMapping,
+  resolveStep,
+  validateThemes,
+  type ThemeDefinition
+} from "./themes";
 
 export type PaletteColor = {
   id: string;
   label: string;
   hex: string;
+  /** Step the base hex is placed at; "middle" when absent. */
+  anchor?: BaseAnchor;
+  /** Overrides the palette-wide interpolation space and curves. */
+  interpolation?: RampSettings;
+  /** Hand-edited steps, kept across base and stop-set changes. */
+  locks?: StepLocks;
+  /** Blend unlocked neighbors towards the locked steps. */
+  reflow?: boolean;
 };
 
-export type ThemeName = "light" | "dark";
+/** Value of the data-theme attribute; see ThemeDefinition. */
+export type ThemeName = string;
 
-export type ThemeMapping = {
-  surfacePrimary: string;
-  surfaceInverse: string;
-  textPrimary: string;
-  textInverse: string;
-  accentPrimary: string;
-  accentInverse: string;
-};
+/** Schema slot key -> palette color id. */
+export type ThemeMapping = Record<string, string>;
 
 export type RampMap = Record<string, Ramp>;
 
@@ -25,10 +61,41 @@ export type TokenBundle = {
     primitives: Record<string, string>;
     themes: Record<ThemeName, Record<string, string>>;
     components: Record<ThemeName, Record<string, string>>;
+    audit: ContrastAudit;
+    /** Primitives set by hand (see PaletteColor.locks), when there are any. */
+    locked?: string[];
+    /** Wide-gamut overrides for clipped primitives, when requested. */
+    wideGamut?: Record<string, string>;
   };
+  /** Roles the contrast solver could not satisfy (empty when not solving). */
+  unsatisfied: UnsatisfiedRole[];
+};
+
+export type BuildOptions = {
+  solveContrast?: boolean;
+  schema?: SemanticSchema;
+  themes?: ThemeDefinition[];
+  registry?: ComponentDefinition[];
+  /**
+  Unclamped values per color id (see rampGamut). Clipped primitives are
+  redefined for P3 displays; the hex values stay as the sRGB fallback.
+  */
+  wideGamut?: { format: WideGamutFormat; ramps: Record<string, RampGamut> };
+};
+
+const WIDE_GAMUT_SUPPORTS: Record<WideGamutFormat, string> = {
+  p3: "color(display-p3 0 0 0)",
+  oklch: "oklch(0 0 0)"
 };
 
-const steps: RampStep[] = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+export type UnsatisfiedRole = {
+  theme: ThemeName;
+  token: string;
+  against: string;
+  target: number;
+  /** Highest ratio any step of the mapped ramp reaches. */
+  best: number;
+};
 
 function varNamePrimitive(id: string, step: RampStep) {
   return `--c-${id}-${step}`;
@@ -38,162 +105,153 @@ function varLine(name: string, value: string) {
   return `  ${name}: ${value};`;
 }
 
+/**
+Picks the step closest to `preferred` that reaches `ratio` against `againstHex`.
+Ties between a lighter and a darker candidate go to the higher contrast one.
+*/
+function solveStep(
+  ramp: Ramp,
+  preferred: RampStep,
+  againstHex: string,
+  ratio: number
+): { ok: true; step: RampStep } | { ok: false; ratio: number } {
+  const steps = rampSteps(ramp);
+  const from = steps.indexOf(preferred);
+  const ranked = steps
+    .map((s, i) => ({
+      step: s,
+      distance: Math.abs(i - from),
+      ratio: wcagRatio(ramp[s], againstHex)
+    }))
+    .sort((a, b) => a.distance - b.distance || b.ratio - a.ratio);
+
+  const hit = ranked.find((c) => c.ratio >= ratio);
+  if (hit) return { ok: true, step: hit.step };
+
+  const best = Math.max(...ranked.map((c) => c.ratio));
+  return { ok: false, ratio: Math.round(best * 100) / 100 };
+}
+
 export function buildTokens(
   palette: PaletteColor[],
   ramps: RampMap,
-  mapping: Record<ThemeName, ThemeMapping>
+  mapping: Record<ThemeName, ThemeMapping>,
+  options: BuildOptions = {}
 ): TokenBundle {
+  const schema = options.schema ?? DEFAULT_SCHEMA;
+  const themeDefs = options.themes ?? DEFAULT_THEMES;
+  const registry = options.registry ?? BUILTIN_COMPONENTS;
+  const errors = [
+    ...validateThemes(themeDefs),
+    ...validateSchema(schema, themeDefs),
+    ...validateRegistry(registry)
+  ];
+  if (errors.length) throw new Error(errors[0]);
+
   const primitives: Record<string, string> = {};
+  const wide: Record<string, string> = {};
+  const locked = new Set<string>();
+  const keyOrder: Record<string, [string, RampStep]> = {};
 
   for (const c of palette) {
     const ramp = ramps[c.id];
     if (!ramp) continue;
-    for (const s of steps) {
+    const gamut = options.wideGamut?.ramps[c.id];
+    for (const s of rampSteps(ramp)) {
       primitives[varNamePrimitive(c.id, s)] = ramp[s];
+      keyOrder[varNamePrimitive(c.id, s)] = [c.id, s];
+      if (c.locks?.[s] !== undefined) locked.add(varNamePrimitive(c.id, s));
+      if (gamut?.[s]?.clip) wide[varNamePrimitive(c.id, s)] = gamut[s].wide;
     }
   }
 
-  const themes: Record<ThemeName, Record<string, string>> = {
-    light: {},
-    dark: {}
-  };
-  const components: Record<ThemeName, Record<string, string>> = {
-    light: {},
-    dark: {}
-  };
+  const themes: Record<ThemeName, Record<string, string>> = {};
+  const components: Record<ThemeName, Record<string, string>> = {};
+  const unsatisfied: UnsatisfiedRole[] = [];
+
+  for (const { name: theme } of themeDefs) {
+    const m = resolveMapping(themeDefs, mapping, theme);
+    const t: Record<string, string> = (themes[theme] = {});
+
+    // Semantic roles (fixed steps, solved against their surface, or aliases)
+    for (const req of schema.roles) {
+      if (req.alias) {
+        t[req.token] = t[req.alias];
+        continue;
+      }
 
-  for (const theme of ["light", "dark"] as ThemeName[]) {
-    const m = mapping[theme];
-
-    // Semantic defaults
-    const surfacePrimaryStep = theme === "light" ? 100 : 900;
-    const surfaceSecondaryStep = theme === "light" ? 200 : 800;
-
-    const textPrimaryStep = theme === "light" ? 900 : 100;
-    const textSecondaryStep = theme === "light" ? 700 : 200;
-    const textMutedStep = theme === "light" ? 600 : 400;
-    const textDisabledStep = theme === "light" ? 400 : 500;
-
-    const borderDefaultStep = theme === "light" ? 300 : 700;
-    const borderStrongStep = theme === "light" ? 400 : 600;
-    const borderSubtleStep = theme === "light" ? 200 : 800;
-
-    const accentDefaultStep: RampStep = 500;
-    const accentHoverStep: RampStep = 600;
-    const accentActiveStep: RampStep = 700;
-
-    themes[theme]["--surface-primary"] = `var(${varNamePrimitive(
-      m.surfacePrimary,
-      surfacePrimaryStep
-    )})`;
-    themes[theme]["--surface-secondary"] = `var(${varNamePrimitive(
-      m.surfacePrimary,
-      surfaceSecondaryStep
-    )})`;
-    themes[theme]["--surface-inverse"] = `var(${varNamePrimitive(
-      m.surfaceInverse,
-      theme === "light" ? 900 : 100
-    )})`;
-
-    themes[theme]["--text-primary"] = `var(${varNamePrimitive(
-      m.textPrimary,
-      textPrimaryStep
-    )})`;
-    themes[theme]["--text-secondary"] = `var(${varNamePrimitive(
-      m.textPrimary,
-      textSecondaryStep
-    )})`;
-    themes[theme]["--text-muted"] = `var(${varNamePrimitive(
-      m.textPrimary,
-      textMutedStep
-    )})`;
-    themes[theme]["--text-disabled"] = `var(${varNamePrimitive(
-      m.textPrimary,
-      textDisabledStep
-    )})`;
-    themes[theme]["--text-inverse"] = `var(${varNamePrimitive(
-      m.textInverse,
-      theme === "light" ? 100 : 900
-    )})`;
-
-    themes[theme]["--border-default"] = `var(${varNamePrimitive(
-      m.textPrimary,
-      borderDefaultStep
-    )})`;
-    themes[theme]["--border-strong"] = `var(${varNamePrimitive(
-      m.textPrimary,
-      borderStrongStep
-    )})`;
-    themes[theme]["--border-subtle"] = `var(${varNamePrimitive(
-      m.textPrimary,
-      borderSubtleStep
-    )})`;
-
-    themes[theme]["--accent"] = `var(${varNamePrimitive(
-      m.accentPrimary,
-      accentDefaultStep
-    )})`;
-    themes[theme]["--accent-hover"] = `var(${varNamePrimitive(
-      m.accentPrimary,
-      accentHoverStep
-    )})`;
-    themes[theme]["--accent-active"] = `var(${varNamePrimitive(
-      m.accentPrimary,
-      accentActiveStep
-    )})`;
-    themes[theme]["--accent-inverse"] = `var(${varNamePrimitive(
-      m.accentInverse,
-      accentDefaultStep
-    )})`;
-
-    themes[theme]["--link"] = themes[theme]["--accent"];
-    themes[theme]["--link-hover"] = themes[theme]["--accent-hover"];
-    themes[theme]["--link-active"] = themes[theme]["--accent-active"];
-
-    // Components (minimal set)
-    components[theme]["--btn-primary-bg"] = themes[theme]["--surface-inverse"];
-    components[theme]["--btn-primary-text"] = themes[theme]["--text-inverse"];
-    components[theme]["--btn-primary-bg-hover"] = themes[theme]["--accent-hover"];
-    components[theme]["--btn-primary-bg-active"] =
-      themes[theme]["--accent-active"];
-    components[theme]["--btn-primary-bg-disabled"] =
-      themes[theme]["--surface-secondary"];
-    components[theme]["--btn-primary-text-disabled"] =
-      themes[theme]["--text-disabled"];
-
-    components[theme]["--btn-secondary-bg"] = "transparent";
-    components[theme]["--btn-secondary-text"] = themes[theme]["--text-primary"];
-    components[theme]["--btn-secondary-border"] =
-      themes[theme]["--border-default"];
-    components[theme]["--btn-secondary-bg-hover"] =
-      themes[theme]["--surface-secondary"];
-    components[theme]["--btn-secondary-bg-active"] =
-      themes[theme]["--surface-secondary"];
-    components[theme]["--btn-secondary-text-disabled"] =
-      themes[theme]["--text-disabled"];
-    components[theme]["--btn-secondary-border-disabled"] =
-      themes[theme]["--border-subtle"];
-
-    components[theme]["--input-bg"] = themes[theme]["--surface-primary"];
-    components[theme]["--input-text"] = themes[theme]["--text-primary"];
-    components[theme]["--input-placeholder"] = themes[theme]["--text-muted"];
-    components[theme]["--input-border"] = themes[theme]["--border-default"];
-    components[theme]["--input-border-focus"] = themes[theme]["--accent"];
-    components[theme]["--input-bg-disabled"] = themes[theme]["--surface-secondary"];
-    components[theme]["--input-text-disabled"] = themes[theme]["--text-disabled"];
+      const id = req.slot ? m[req.slot] : undefined;
+      if (!id) {
+        throw new Error(
+          `Theme "${theme}": slot "${req.slot ?? ""}" has no color`
+        );
+      }
+      let step = resolveStep(themeDefs, req, theme)!;
+      if (ramps[id] && ramps[id][step] === undefined) {
+        throw new Error(`${req.token} uses step ${step}, which ${id} lacks`);
+      }
+
+      if (options.solveContrast && req.minContrast) {
+        const ramp = ramps[id];
+        const against = resolvePrimitive(
+          t[req.minContrast.against] ?? "",
+          ramps
+        );
+        if (against && ramp) {
+          const solved = solveStep(ramp, step, against, req.minContrast.ratio);
+          if (solved.ok) {
+            step = solved.step;
+          } else {
+            unsatisfied.push({
+              theme,
+              token: req.token,
+              against: req.minContrast.against,
+              target: req.minContrast.ratio,
+              best: solved.ratio
+            });
+          }
+        }
+      }
+
+      t[req.token] = `var(${varNamePrimitive(id, step)})`;
+    }
+
+    // Components, resolved through the registry
+    components[theme] = resolveComponents(registry, t);
   }
 
   const lines: string[] = [];
   lines.push(":root {");
   lines.push("  /* Primitive ramps */");
-  const primitiveKeys = Object.keys(primitives).sort((a, b) =>
-    a.localeCompare(b)
-  );
-  for (const k of primitiveKeys) lines.push(varLine(k, primitives[k]));
+  // By color id, then step, so 50 comes before 100
+  const primitiveKeys = Object.keys(primitives).sort((a, b) => {
+    const [idA, stepA] = keyOrder[a];
+    const [idB, stepB] = keyOrder[b];
+    return idA.localeCompare(idB) || stepA - stepB;
+  });
+  for (const k of primitiveKeys) {
+    const line = varLine(k, primitives[k]);
+    lines.push(locked.has(k) ? `${line} /* locked */` : line);
+  }
   lines.push("}");
   lines.push("");
 
-  for (const theme of ["light", "dark"] as ThemeName[]) {
+  const wideKeys = primitiveKeys.filter((k) => k in wide);
+  if (options.wideGamut && wideKeys.length) {
+    lines.push("@media (color-gamut: p3) {");
+    lines.push(
+      `  @supports (color: ${WIDE_GAMUT_SUPPORTS[options.wideGamut.format]}) {`
+    );
+    lines.push("    :root {");
+    lines.push("      /* Gamut-clipped primitives, unclamped */");
+    for (const k of wideKeys) lines.push(`    ${varLine(k, wide[k])}`);
+    lines.push("    }");
+    lines.push("  }");
+    lines.push("}");
+    lines.push("");
+  }
+
+  for (const { name: theme } of themeDefs) {
     lines.push(`[data-theme="${theme}"] {`);
     lines.push("  /* Semantic tokens */");
     for (const [k, v] of Object.entries(themes[theme])) lines.push(varLine(k, v));
@@ -205,7 +263,20 @@ export function buildTokens(
     lines.push("");
   }
 
-  return { css: lines.join("\n"), json: { primitives, themes, components } };
+  const audit = auditContrast(themes, components, ramps);
+
+  return {
+    css: lines.join("\n"),
+    json: {
+      primitives,
+      themes,
+      components,
+      audit,
+      ...(locked.size ? { locked: [...locked] } : {}),
+      ...(options.wideGamut ? { wideGamut: wide } : {})
+    },
+    unsatisfied
+  };
 }
 
 export function slugifyId(input: string) {
@@ -215,3 +286,13 @@ export function slugifyId(input: string) {
     .replace(/[^a-z0-9]+/g, "-")
     .replace(/^-+|-+$/g, "");
 }
+
+export function uniqueId(base: string, used: Set<string>) {
+  let i = 1;
+  let id = base;
+  while (used.has(id)) {
+    i += 1;
+    id = `${base}-${i}`;
+  }
+  return id;
+}
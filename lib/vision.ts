@@ -0,0 +1,116 @@
+import {
+  differenceCiede2000,
+  filterContrast,
+  filterDeficiencyDeuter,
+  filterDeficiencyProt,
+  filterDeficiencyTrit,
+  filterGrayscale,
+  formatHex,
+  parse
+} from "culori";
+import { resolvePrimitive } from "./contrast";
+import type { SemanticSchema } from "./schema";
+import type { RampMap, ThemeName } from "./tokens";
+
+export type VisionMode =
+  | "normal"
+  | "protanopia"
+  | "deuteranopia"
+  | "tritanopia"
+  | "achromatopsia"
+  | "low-contrast";
+
+export const VISION_MODES: { id: VisionMode; label: string }[] = [
+  { id: "normal", label: "Normal vision" },
+  { id: "protanopia", label: "Protanopia (no red cones)" },
+  { id: "deuteranopia", label: "Deuteranopia (no green cones)" },
+  { id: "tritanopia", label: "Tritanopia (no blue cones)" },
+  { id: "achromatopsia", label: "Achromatopsia (no color)" },
+  { id: "low-contrast", label: "Low contrast sensitivity" }
+];
+
+/** CIEDE2000 distance below which two colors count as indistinguishable. */
+export const DEFAULT_DISTINCT_DELTA_E = 10;
+
+const FILTERS: Record<Exclude<VisionMode, "normal">, (c: any) => any> = {
+  protanopia: filterDeficiencyProt(1),
+  deuteranopia: filterDeficiencyDeuter(1),
+  tritanopia: filterDeficiencyTrit(1),
+  achromatopsia: filterGrayscale(1),
+  // Halves contrast around mid-gray, a rough stand-in for low vision
+  "low-contrast": filterContrast(0.5)
+};
+
+const deltaE = differenceCiede2000();
+
+/**
+How `color` (any CSS color) appears under `mode`, as hex. Normal vision keeps
+the input as is, so wide-gamut values stay wide-gamut.
+*/
+export function simulateColor(color: string, mode: VisionMode): string {
+  if (mode === "normal") return color;
+  const parsed = parse(color);
+  if (!parsed) return color;
+  return formatHex(FILTERS[mode](parsed)) ?? color;
+}
+
+/** Rewrites every color literal in a stylesheet, e.g. tokens.css. */
+export function simulateCss(css: string, mode: VisionMode): string {
+  if (mode === "normal") return css;
+  return css.replace(
+    /#[0-9a-fA-F]{3,8}\b|(?:oklch|color)\([^)]*\)/g,
+    (color) => simulateColor(color, mode)
+  );
+}
+
+export type VisionConflict = {
+  theme: ThemeName;
+  mode: VisionMode;
+  accent: string;
+  surface: string;
+  deltaE: number;
+};
+
+/**
+Accent/surface role pairs (by the slot they read from) whose colors fall
+below `threshold` under some simulation. Pairs that are already that close
+with normal vision are left to the contrast audit.
+*/
+export function findVisionConflicts(
+  themes: Record<ThemeName, Record<string, string>>,
+  ramps: RampMap,
+  schema: SemanticSchema,
+  threshold = DEFAULT_DISTINCT_DELTA_E
+): VisionConflict[] {
+  const bySlot = (pattern: RegExp) =>
+    schema.roles.filter((r) => r.slot && pattern.test(r.slot)).map((r) => r.token);
+  const accents = bySlot(/accent/i);
+  const surfaces = bySlot(/surface/i);
+  const conflicts: VisionConflict[] = [];
+
+  for (const [theme, tokens] of Object.entries(themes)) {
+    for (const accent of accents) {
+      for (const surface of surfaces) {
+        const a = resolvePrimitive(tokens[accent] ?? "", ramps);
+        const b = resolvePrimitive(tokens[surface] ?? "", ramps);
+        if (!a || !b || deltaE(a, b) < threshold) continue;
+
+        for (const { id: mode } of VISION_MODES) {
+          if (mode === "normal") continue;
+          const d = deltaE(simulateColor(a, mode), simulateColor(b, mode));
+          if (d < threshold) {
+            conflicts.push({
+              theme,
+              mode,
+              accent,
+              surface,
+              deltaE: Math.round(d * 10) / 10
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,167 @@
+import type { ExportFile } from "./exporters";
+
+/*
+Minimal ZIP support without a dependency. Writing stores entries uncompressed,
+which every unzip tool and Finder accept; token files are small, so
+compression is not worth it. Reading handles stored and deflated entries,
+enough for swatch files from other tools.
+*/
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** DOS date and time fields for `date`. */
+function dosTime(date: Date) {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate()
+  };
+}
+
+/**
+Packs the files, paths as given ("a/b/c.json"), into a .zip archive. Content
+may be text or bytes, e.g. other archives.
+*/
+export function zipFiles(
+  files: { filename: string; content: string | Uint8Array }[],
+  modified = new Date()
+) {
+  const encoder = new TextEncoder();
+  const { time, date } = dosTime(modified);
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.filename);
+    const data =
+      typeof file.content === "string"
+        ? encoder.encode(file.content)
+        : file.content;
+    const crc = crc32(data);
+
+    const header = new Uint8Array(30 + name.length);
+    const h = new DataView(header.buffer);
+    h.setUint32(0, 0x04034b50, true);
+    h.setUint16(4, 20, true); // version needed
+    h.setUint16(6, 0x0800, true); // UTF-8 names
+    h.setUint16(8, 0, true); // stored
+    h.setUint16(10, time, true);
+    h.setUint16(12, date, true);
+    h.setUint32(14, crc, true);
+    h.setUint32(18, data.length, true);
+    h.setUint32(22, data.length, true);
+    h.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const e = new DataView(entry.buffer);
+    e.setUint32(0, 0x02014b50, true);
+    e.setUint16(4, 20, true); // version made by
+    e.setUint16(6, 20, true);
+    e.setUint16(8, 0x0800, true);
+    e.setUint16(10, 0, true);
+    e.setUint16(12, time, true);
+    e.setUint16(14, date, true);
+    e.setUint32(16, crc, true);
+    e.setUint32(20, data.length, true);
+    e.setUint32(24, data.length, true);
+    e.setUint16(28, name.length, true);
+    e.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    local.push(header, data);
+    central.push(entry);
+    offset += header.length + data.length;
+  }
+
+  const centralSize = central.reduce((n, c) => n + c.length, 0);
+  const end = new Uint8Array(22);
+  const v = new DataView(end.buffer);
+  v.setUint32(0, 0x06054b50, true);
+  v.setUint16(8, files.length, true);
+  v.setUint16(10, files.length, true);
+  v.setUint32(12, centralSize, true);
+  v.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, end];
+  const out = new Uint8Array(offset + centralSize + end.length);
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
+
+/**
+Reads a .zip archive back into text files. Handles stored and deflated
+entries (the latter through DecompressionStream), which covers what Procreate
+and most tools write.
+*/
+export async function unzipFiles(bytes: Uint8Array): Promise<ExportFile[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not a zip archive");
+
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  const files: ExportFile[] = [];
+  let at = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(at, true) !== 0x02014b50)
+      throw new Error("Corrupt zip directory");
+    const method = view.getUint16(at + 10, true);
+    const size = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true);
+    const commentLength = view.getUint16(at + 32, true);
+    const offset = view.getUint32(at + 42, true);
+    const filename = decoder.decode(
+      bytes.subarray(at + 46, at + 46 + nameLength)
+    );
+    at += 46 + nameLength + extraLength + commentLength;
+    if (filename.endsWith("/")) continue;
+
+    const start =
+      offset +
+      30 +
+      view.getUint16(offset + 26, true) +
+      view.getUint16(offset + 28, true);
+    const data = bytes.subarray(start, start + size);
+    if (method !== 0 && method !== 8)
+      throw new Error(`${filename}: unsupported compression`);
+    files.push({
+      filename,
+      content: decoder.decode(method === 8 ? await inflate(data) : data)
+    });
+  }
+  return files;
+}
+
+async function inflate(data: Uint8Array) {
+  const stream = new Blob([data.slice()])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}